@@ -0,0 +1,562 @@
+/**
+ * Message body rendering
+ *
+ * Turns the text and HTML parts of an email into something readable:
+ * HTML becomes markdown (keeping links, lists and data tables) or plain
+ * text, entities are decoded, and quoted reply chains, forwarded-message
+ * headers and signatures can be stripped so only the new content remains.
+ *
+ * HTML is parsed into a small lenient tree rather than with a full HTML
+ * parser; mail HTML is often malformed, so unmatched close tags are ignored
+ * and paragraphs, list items and table cells close implicitly.
+ */
+
+import type { Email } from './types.js';
+
+export type BodyFormat = 'text' | 'markdown' | 'html' | 'raw';
+
+export interface BodyOptions {
+  /** Default: text */
+  format?: BodyFormat;
+  /** Remove quoted replies, forwarded-message headers and signatures. Default: false */
+  stripQuotes?: boolean;
+}
+
+type HtmlNode =
+  | { type: 'text'; text: string }
+  | { type: 'element'; name: string; attrs: Record<string, string>; children: HtmlNode[] };
+
+type HtmlElement = Extract<HtmlNode, { type: 'element' }>;
+
+interface RenderContext {
+  markdown: boolean;
+  /** Preformatted blocks, replaced by placeholders until the end so whitespace cleanup leaves them alone */
+  preformatted: string[];
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+/** Opening the key element closes any open elements in its list */
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  p: ['p'],
+  li: ['li', 'p'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th', 'p'],
+  td: ['td', 'th', 'p'],
+  th: ['td', 'th', 'p'],
+};
+
+const PARAGRAPH_ELEMENTS = new Set([
+  'p', 'address', 'article', 'aside', 'center', 'dl', 'figure', 'footer', 'form', 'header', 'main', 'nav', 'section',
+]);
+
+const LINE_ELEMENTS = new Set(['div', 'dt', 'dd', 'figcaption', 'caption', 'tr', 'tbody', 'thead', 'tfoot']);
+
+/** Stands in for list indentation while leading whitespace is trimmed */
+const INDENT = '\u0001';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', shy: '',
+  ensp: '\u2002', emsp: '\u2003', thinsp: '\u2009', zwnj: '\u200c', zwj: '\u200d',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”', bdquo: '„', laquo: '«', raquo: '»',
+  copy: '©', reg: '®', trade: '™', deg: '°', plusmn: '±', times: '×', divide: '÷',
+  frac12: '½', frac14: '¼', frac34: '¾', sect: '§', para: '¶',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', iexcl: '¡', iquest: '¿',
+  szlig: 'ß', aelig: 'æ', AElig: 'Æ', oslash: 'ø', Oslash: 'Ø', eth: 'ð', ETH: 'Ð', thorn: 'þ', THORN: 'Þ',
+  larr: '←', rarr: '→', uarr: '↑', darr: '↓', check: '✓',
+};
+
+/** Combining marks for entities such as &eacute; and &Uuml; */
+const ACCENT_ENTITIES: Record<string, string> = {
+  grave: '\u0300', acute: '\u0301', circ: '\u0302', tilde: '\u0303', uml: '\u0308', ring: '\u030a', cedil: '\u0327',
+};
+
+/** "On <date>, <someone> wrote:" in the languages mail clients commonly use */
+const ATTRIBUTION = new RegExp([
+  String.raw`^On\b.+\bwrote:$`,
+  String.raw`^Le\b.+\ba écrit\s?:$`,
+  String.raw`^Am\b.+\bschrieb\b.*:$`,
+  String.raw`^El\b.+\bescribió:$`,
+  String.raw`^Il\b.+\bha scritto:$`,
+  String.raw`^Op\b.+\bschreef\b.*:$`,
+  String.raw`^(Em|No dia)\b.+\bescreveu:$`,
+  String.raw`^\d{4}[/.-]\d{1,2}[/.-]\d{1,2}.*<[^>]+@[^>]+>.*:$`,
+].join('|'), 'i');
+
+const FORWARD_MARKER = /^(-{2,}\s*(Forwarded message|Weitergeleitete Nachricht|Message transféré|Mensaje reenviado|Messaggio inoltrato)\s*-{2,}|Begin forwarded message:)$/i;
+
+const ORIGINAL_MESSAGE = /^-{2,}\s*(Original Message|Ursprüngliche Nachricht|Message d'origine|Mensaje original|Messaggio originale)\s*-{2,}$/i;
+
+/** First line of an Outlook-style header block introducing the quoted original */
+const HEADER_FROM = /^\**(From|Von|De|Da|Van)\s*:\**\s+(\S.*)$/i;
+/** The block's send date, which must follow the From line */
+const HEADER_DATE = /^\**(Sent|Gesendet|Envoyé|Enviado|Inviato|Verzonden|Date|Datum)\s*:\**\s+(\S.*)$/i;
+
+/** Rule Outlook puts above the header block, e.g. a line of underscores */
+const SEPARATOR_LINE = /^[-_=*]{3,}$/;
+
+const MOBILE_SIGNATURE = /^(Sent from (my )?\S.*|Sent from Yahoo Mail.*|Get Outlook for \S.*|Envoyé de mon \S.*|Von meinem \S.* gesendet|Enviado desde mi \S.*|Inviato da \S.*)$/i;
+
+/**
+ * Render an email's body in the requested format. raw returns the text part
+ * (or the HTML if there is none) exactly as received.
+ */
+export function renderBody(email: Email, options: BodyOptions = {}): string {
+  const { format = 'text', stripQuotes: strip = false } = options;
+
+  switch (format) {
+    case 'raw':
+      return email.text ?? email.html ?? '';
+    case 'html':
+      if (email.html) {
+        return strip ? stripHtmlQuotes(email.html) : email.html;
+      }
+      return `<pre>${escapeHtml(renderBody(email, { format: 'text', stripQuotes: strip }))}</pre>`;
+    case 'markdown': {
+      const markdown = email.html ? htmlToMarkdown(email.html) : normalizeText(email.text || '');
+      return strip ? stripQuotes(markdown) : markdown;
+    }
+    case 'text': {
+      const text = email.text ? normalizeText(email.text) : htmlToText(email.html || '');
+      return strip ? stripQuotes(text) : text;
+    }
+    default:
+      throw new Error(`Unsupported body format: ${format}. Use text, markdown, html or raw.`);
+  }
+}
+
+/**
+ * Plain text of an email, from its text part or else its HTML
+ */
+export function bodyText(email: Email): string {
+  return renderBody(email, { format: 'text' });
+}
+
+/**
+ * A short single-line preview of the new content of a message
+ */
+export function makeSnippet(body: string, isHtml: boolean = false, length: number = 200): string {
+  const text = isHtml ? htmlToText(body) : normalizeText(body);
+  const cleaned = stripQuotes(text) || text;
+  return cleaned.replace(/\s+/g, ' ').trim().substring(0, length);
+}
+
+/**
+ * Convert HTML to markdown: headings, emphasis, links, images, lists,
+ * blockquotes, code and data tables. Layout tables become plain blocks.
+ */
+export function htmlToMarkdown(html: string): string {
+  return renderHtml(html, true);
+}
+
+/**
+ * Convert HTML to plain text, keeping link targets in parentheses
+ */
+export function htmlToText(html: string): string {
+  return renderHtml(html, false);
+}
+
+/**
+ * Decode HTML character references, named and numeric
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);?/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff) ? String.fromCodePoint(code) : '\ufffd';
+    }
+    if (!match.endsWith(';') && !['amp', 'lt', 'gt', 'quot', 'nbsp'].includes(entity)) {
+      return match;
+    }
+    if (Object.hasOwn(NAMED_ENTITIES, entity)) {
+      return NAMED_ENTITIES[entity];
+    }
+    const accented = entity.match(/^([a-zA-Z])(grave|acute|circ|tilde|uml|ring|cedil)$/);
+    if (accented) {
+      return (accented[1] + ACCENT_ENTITIES[accented[2]]).normalize('NFC');
+    }
+    return match;
+  });
+}
+
+/**
+ * Remove quoted replies ("> " lines and the "On ... wrote:" line before
+ * them), the quoted original below Outlook-style headers, forwarded-message
+ * headers (the forwarded content is kept) and signatures.
+ */
+export function stripQuotes(text: string): string {
+  const lines = text.split('\n');
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (FORWARD_MARKER.test(line)) {
+      // Drop the marker and the header lines that follow it
+      i++;
+      while (i < lines.length && (/^\**[\w-]+\s*:\**\s/.test(lines[i].trim()) || (lines[i].trim() === '' && kept.length === 0))) {
+        i++;
+      }
+      i--;
+      continue;
+    }
+
+    if (ORIGINAL_MESSAGE.test(line) || (kept.some((l) => l.trim() !== '') && isHeaderBlock(lines, i))) {
+      break;
+    }
+
+    // "On ... wrote:" is often wrapped onto two lines
+    const attribution = ATTRIBUTION.test(line) ? 1 : ATTRIBUTION.test(`${line} ${lines[i + 1]?.trim() || ''}`) ? 2 : 0;
+    if (attribution > 0) {
+      const rest = lines.slice(i + attribution).filter((l) => l.trim() !== '');
+      if (rest.length === 0 || !rest[0].trim().startsWith('>') || rest.every((l) => l.trim().startsWith('>'))) {
+        // Top-posted reply: everything below is the quoted original
+        break;
+      }
+      // Interleaved reply: drop the attribution, the quoted lines are dropped below
+      i += attribution - 1;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      continue;
+    }
+
+    // RFC 3676 signature delimiter
+    if (lines[i] === '-- ' || lines[i] === '--') {
+      break;
+    }
+
+    kept.push(lines[i]);
+  }
+
+  const trailing = (line: string) => line === '' || SEPARATOR_LINE.test(line) || MOBILE_SIGNATURE.test(line);
+  while (kept.length > 0 && trailing(kept[kept.length - 1].trim())) {
+    kept.pop();
+  }
+
+  return collapseBlankLines(kept.join('\n')).trim();
+}
+
+/**
+ * Remove quoted replies and signatures from HTML: Gmail, Yahoo and Outlook
+ * quote containers and <blockquote type="cite">
+ */
+function stripHtmlQuotes(html: string): string {
+  let result = html;
+
+  // Outlook puts the original below a header div; everything after it is history
+  const outlook = result.search(/<div[^>]+id=["']?(divRplyFwdMsg|appendonsend)\b/i);
+  if (outlook >= 0) {
+    const end = result.search(/<\/body\s*>/i);
+    result = result.slice(0, outlook) + (end > outlook ? result.slice(end) : '');
+  }
+
+  const patterns = [
+    /<div[^>]+class=["']?[^"'>]*\b(gmail_quote|gmail_signature|yahoo_quoted|moz-cite-prefix|moz-signature)\b[^>]*>/i,
+    /<blockquote[^>]+type=["']?cite\b[^>]*>/i,
+  ];
+  for (const pattern of patterns) {
+    for (let match = pattern.exec(result); match; match = pattern.exec(result)) {
+      const name = match[0].slice(1).match(/^\w+/)![0];
+      result = result.slice(0, match.index) + result.slice(elementEnd(result, name, match.index + match[0].length));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Index just past the close tag matching an element opened before `from`
+ */
+function elementEnd(html: string, name: string, from: number): number {
+  const tags = new RegExp(`<(/?)${name}\\b[^>]*>`, 'gi');
+  tags.lastIndex = from;
+  let depth = 1;
+  for (let match = tags.exec(html); match; match = tags.exec(html)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) {
+      return match.index + match[0].length;
+    }
+  }
+  return html.length;
+}
+
+/**
+ * An Outlook-style "From: ... / Sent: ..." block starting at line i. It must
+ * follow a blank or separator line, and have a Sent/Date line among the next
+ * few, with an address in From or a date in Sent, so text such as
+ * "From: the docs" is not mistaken for one.
+ */
+function isHeaderBlock(lines: string[], i: number): boolean {
+  const from = lines[i].trim().match(HEADER_FROM);
+  const previous = i > 0 ? lines[i - 1].trim() : '';
+  if (!from || (previous !== '' && !SEPARATOR_LINE.test(previous))) {
+    return false;
+  }
+
+  const block: string[] = [];
+  for (let j = i + 1; j < lines.length && j <= i + 5 && lines[j].trim() !== ''; j++) {
+    block.push(lines[j].trim());
+  }
+  const sent = block.map((line) => line.match(HEADER_DATE)).find((match) => match !== null);
+  return sent !== undefined && (from[2].includes('@') || /\d/.test(sent![2]));
+}
+
+function renderHtml(html: string, markdown: boolean): string {
+  const context: RenderContext = { markdown, preformatted: [] };
+  const output = tidy(renderChildren(parseHtml(html), context));
+  return output
+    .replace(new RegExp(INDENT, 'g'), ' ')
+    .replace(/\u0000(\d+)\u0000/g, (_match, index: string) => context.preformatted[parseInt(index, 10)]);
+}
+
+/**
+ * Parse HTML into a lenient tree. Comments, scripts, styles and the head are dropped.
+ */
+function parseHtml(html: string): HtmlNode[] {
+  const source = html
+    .replace(/<!--[\s\S]*?(-->|$)/g, '')
+    .replace(/<(script|style|head|title|template)\b[^>]*>[\s\S]*?(<\/\1\s*>|$)/gi, '');
+
+  const root: HtmlElement = { type: 'element', name: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const tags = /<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|<![^>]*>|<\?[^>]*>/g;
+
+  let last = 0;
+  for (let match = tags.exec(source); ; match = tags.exec(source)) {
+    const text = source.slice(last, match ? match.index : source.length);
+    if (text) {
+      stack[stack.length - 1].children.push({ type: 'text', text: decodeEntities(text) });
+    }
+    if (!match) {
+      break;
+    }
+    last = match.index + match[0].length;
+    if (!match[2]) {
+      continue;
+    }
+
+    const name = match[2].toLowerCase();
+    if (match[1]) {
+      const open = stack.map((element) => element.name).lastIndexOf(name);
+      if (open > 0) {
+        stack.length = open;
+      }
+      continue;
+    }
+
+    const closes = IMPLICIT_CLOSE[name];
+    while (closes && closes.includes(stack[stack.length - 1].name)) {
+      stack.pop();
+    }
+
+    const element: HtmlElement = { type: 'element', name, attrs: parseAttributes(match[3]), children: [] };
+    stack[stack.length - 1].children.push(element);
+    if (!VOID_ELEMENTS.has(name) && !match[3].trimEnd().endsWith('/')) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=/"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+function renderChildren(nodes: HtmlNode[], context: RenderContext): string {
+  return nodes.map((node) => renderNode(node, context)).join('');
+}
+
+function renderNode(node: HtmlNode, context: RenderContext): string {
+  if (node.type === 'text') {
+    return node.text.replace(/\s+/g, ' ');
+  }
+
+  const { markdown } = context;
+  const inner = () => renderChildren(node.children, context);
+
+  switch (node.name) {
+    case 'br':
+      return '\n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+      const heading = inner().trim();
+      return heading ? `\n\n${markdown ? `${'#'.repeat(parseInt(node.name[1], 10))} ` : ''}${heading}\n\n` : '';
+    }
+    case 'strong': case 'b':
+      return markdown ? wrapInline(inner(), '**') : inner();
+    case 'em': case 'i':
+      return markdown ? wrapInline(inner(), '_') : inner();
+    case 's': case 'strike': case 'del':
+      return markdown ? wrapInline(inner(), '~~') : inner();
+    case 'code': case 'kbd': case 'samp':
+      return markdown ? wrapInline(inner(), '`') : inner();
+    case 'pre':
+      return renderPreformatted(node, context);
+    case 'a':
+      return renderLink(node, inner(), markdown);
+    case 'img': {
+      const alt = (node.attrs.alt || '').trim();
+      return markdown && alt && /^https?:/i.test(node.attrs.src || '') ? `![${alt}](${node.attrs.src})` : alt;
+    }
+    case 'ul': case 'ol': case 'menu':
+      return `\n\n${renderList(node, context)}\n\n`;
+    case 'li':
+      return `\n${renderListItem(node, '-', context)}\n`;
+    case 'blockquote': {
+      const quoted = tidy(inner());
+      return quoted ? `\n\n${quoted.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n')}\n\n` : '';
+    }
+    case 'table':
+      return `\n\n${renderTable(node, context)}\n\n`;
+    case 'td': case 'th':
+      return ` ${inner()} `;
+    default:
+      if (PARAGRAPH_ELEMENTS.has(node.name)) {
+        return `\n\n${inner()}\n\n`;
+      }
+      if (LINE_ELEMENTS.has(node.name)) {
+        return `\n${inner()}\n`;
+      }
+      return inner();
+  }
+}
+
+function renderLink(node: HtmlElement, label: string, markdown: boolean): string {
+  const href = (node.attrs.href || '').trim();
+  const text = label.trim();
+  if (!href || /^(#|javascript:)/i.test(href) || !text) {
+    return label;
+  }
+
+  const target = href.replace(/^mailto:/i, '');
+  if (text === href || text === target) {
+    return label.replace(text, markdown && !href.startsWith('mailto:') ? `<${href}>` : text);
+  }
+  return label.replace(text, markdown ? `[${text}](${href.replace(/[()\s]/g, (c) => `%${c.charCodeAt(0).toString(16).padStart(2, '0').toUpperCase()}`)})` : `${text} (${target})`);
+}
+
+function renderPreformatted(node: HtmlElement, context: RenderContext): string {
+  const text = textContent(node).replace(/^\n/, '').trimEnd();
+  context.preformatted.push(context.markdown ? `\`\`\`\n${text}\n\`\`\`` : text);
+  return `\n\n\u0000${context.preformatted.length - 1}\u0000\n\n`;
+}
+
+function renderList(list: HtmlElement, context: RenderContext): string {
+  let number = parseInt(list.attrs.start || '1', 10) || 1;
+  const items: string[] = [];
+  for (const child of list.children) {
+    if (child.type === 'element' && child.name === 'li') {
+      items.push(renderListItem(child, list.name === 'ol' ? `${number++}.` : '-', context));
+    } else if (child.type === 'element') {
+      items.push(tidy(renderNode(child, context)));
+    }
+  }
+  return items.filter(Boolean).join('\n');
+}
+
+function renderListItem(item: HtmlElement, marker: string, context: RenderContext): string {
+  // Keep nested lists tight against their parent item
+  const content = tidy(renderChildren(item.children, context)).replace(/\n\n(?=(-|\d+\.) )/g, '\n');
+  const indent = INDENT.repeat(marker.length + 1);
+  return `${marker} ${content.split('\n').map((line, index) => (index > 0 && line ? indent + line : line)).join('\n')}`;
+}
+
+/**
+ * Render a table as a markdown table, or as plain blocks when it is used
+ * for layout (one column, nested tables or multi-line cells)
+ */
+function renderTable(table: HtmlElement, context: RenderContext): string {
+  const rows: HtmlElement[][] = [];
+  let nested = false;
+
+  const collect = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (child.type !== 'element') {
+        continue;
+      }
+      if (child.name === 'tr') {
+        rows.push(child.children.filter((cell): cell is HtmlElement =>
+          cell.type === 'element' && (cell.name === 'td' || cell.name === 'th')));
+        nested ||= child.children.some((cell) => cell.type === 'element' && containsElement(cell, 'table'));
+      } else if (['thead', 'tbody', 'tfoot'].includes(child.name)) {
+        collect(child);
+      }
+    }
+  };
+  collect(table);
+
+  const cells = rows.map((row) => row.map((cell) => tidy(renderChildren(cell.children, context))));
+  const columns = Math.max(0, ...cells.map((row) => row.length));
+  const layout = nested || columns < 2 || cells.some((row) => row.some((cell) => cell.includes('\n')));
+
+  if (layout) {
+    return cells.map((row) => row.filter(Boolean).join('\n\n')).filter(Boolean).join('\n\n');
+  }
+
+  const lines = cells
+    .filter((row) => row.some(Boolean))
+    .map((row) => [...row, ...Array(columns - row.length).fill('')]);
+  if (lines.length === 0) {
+    return '';
+  }
+  if (!context.markdown) {
+    return lines.map((row) => row.join(' | ')).join('\n');
+  }
+
+  const format = (row: string[]) => `| ${row.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [format(lines[0]), format(Array(columns).fill('---')), ...lines.slice(1).map(format)].join('\n');
+}
+
+function containsElement(node: HtmlElement, name: string): boolean {
+  return node.children.some((child) => child.type === 'element' && (child.name === name || containsElement(child, name)));
+}
+
+function textContent(node: HtmlNode): string {
+  if (node.type === 'text') {
+    return node.text;
+  }
+  return node.name === 'br' ? '\n' : node.children.map(textContent).join('');
+}
+
+/**
+ * Move surrounding spaces outside an inline marker, so "<b> bold </b>" becomes " **bold** "
+ */
+function wrapInline(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+}
+
+/**
+ * Trim each line and collapse blank lines
+ */
+function tidy(text: string): string {
+  return collapseBlankLines(text.split('\n').map((line) => line.replace(/^[ \t\u00a0]+|[ \t\u00a0]+$/g, '')).join('\n')).trim();
+}
+
+function normalizeText(text: string): string {
+  return collapseBlankLines(text.replace(/\r\n?/g, '\n').split('\n').map((line) => line.trimEnd()).join('\n')).trim();
+}
+
+function collapseBlankLines(text: string): string {
+  return text.replace(/\n{3,}/g, '\n\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
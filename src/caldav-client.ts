@@ -1,33 +1,64 @@
 /**
  * CalDAV Client for Yahoo Calendar
- * 
- * This is a skeleton implementation. You'll need to:
- * 1. Implement CalDAV connection with OAuth2
- * 2. Fetch calendar events with date range filtering
- * 3. Parse iCalendar format (.ics)
- * 
- * Note: The `dav` npm package may need custom OAuth2 support.
- * You might need to use a different library or implement CalDAV manually.
+ *
+ * Speaks CalDAV (RFC 4791) directly over HTTP with an OAuth2 Bearer token:
+ * PROPFIND finds the user's principal and calendar home, PROPFIND on the
+ * home lists calendars, and calendar-query REPORTs fetch events in a time
+ * range, with recurring events expanded into their occurrences. Events are
+ * written with PUT and removed with DELETE on their object URL, conditional
+ * on the ETag so concurrent edits are not overwritten. A 401 refreshes the
+ * access token and retries once.
  */
 
-// @ts-ignore - dav types may not be available
-import { createDAVClient } from 'dav';
-import type { Calendar, CalendarEvent, FetchCalendarEventsParams } from './types.js';
+import axios, { type AxiosResponse } from 'axios';
+import * as crypto from 'crypto';
+import {
+  APPLE_ICAL_NS,
+  CALDAV_NS,
+  CALENDARSERVER_NS,
+  DAV_NS,
+  escapeXml,
+  findChild,
+  findChildren,
+  parseXml,
+  type XmlElement,
+} from './dav-xml.js';
+import { parseEvents, parseFreeBusy, parseICalendar, type ICalComponent } from './icalendar.js';
+import {
+  addOverride,
+  applyEventChanges,
+  buildCalendarObject,
+  excludeOccurrence,
+  findEventComponent,
+  serializeICalendar,
+} from './icalendar-writer.js';
+import { parseOccurrenceId, toOccurrence } from './recurrence.js';
+import type { BusyPeriod, Calendar, CalendarEvent, EventChanges, FetchCalendarEventsParams } from './types.js';
 import type { YahooOAuth2 } from './oauth2.js';
 
-/**
- * CalDAV Client for Yahoo Calendar
- * 
- * Note: The `dav` package might not support OAuth2 out of the box.
- * You may need to:
- * 1. Use a different CalDAV library that supports OAuth2
- * 2. Implement CalDAV requests manually using HTTP requests with OAuth2 headers
- * 3. Use Yahoo's specific CalDAV implementation
- */
+/** One <response> of a multistatus: its URL and the properties the server returned with 200 */
+interface DavResource {
+  url: string;
+  props: XmlElement[];
+}
+
+/** A calendar object resource returned by a calendar-query */
+interface CalendarObject {
+  url: string;
+  etag?: string;
+  data: string;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="utf-8"?>';
+
+const ICALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+const REQUEST_TIMEOUT = 30 * 1000;
+
 export class YahooCalDAVClient {
   private caldavUrl: string;
   private oauth2: YahooOAuth2;
-  private client?: any; // DAVClient type
+  private calendarHome?: string;
 
   constructor(oauth2: YahooOAuth2, caldavUrl: string) {
     this.oauth2 = oauth2;
@@ -35,23 +66,21 @@ export class YahooCalDAVClient {
   }
 
   /**
-   * Initialize CalDAV client with OAuth2
+   * Discover the calendar home: the current user's principal, then its calendar-home-set
    */
   async initialize(): Promise<void> {
     try {
-      const accessToken = await this.oauth2.getAccessToken();
-      
-      // Note: The `dav` package might need custom OAuth2 implementation
-      // You may need to use axios directly for CalDAV requests with OAuth2 headers
-      this.client = createDAVClient({
-        server: this.caldavUrl,
-        credentials: {
-          accessToken: accessToken,
-        },
-        // Additional OAuth2 configuration might be needed
-      });
+      const principal = await this.findHref(this.caldavUrl, DAV_NS, 'current-user-principal');
+      if (!principal) {
+        throw new Error('the server did not report a current-user-principal');
+      }
+
+      this.calendarHome = await this.findHref(principal, CALDAV_NS, 'calendar-home-set');
+      if (!this.calendarHome) {
+        throw new Error('the principal has no calendar-home-set');
+      }
     } catch (error) {
-      throw new Error(`Failed to initialize CalDAV client: ${error}`);
+      throw new Error(`Failed to initialize CalDAV client: ${error instanceof Error ? error.message : error}`);
     }
   }
 
@@ -59,171 +88,416 @@ export class YahooCalDAVClient {
    * List all available calendars
    */
   async listCalendars(): Promise<Calendar[]> {
-    if (!this.client) {
+    if (!this.calendarHome) {
       await this.initialize();
     }
 
     try {
-      // Fetch calendars using CalDAV PROPFIND request
-      // The `dav` library should handle this, but OAuth2 might need custom implementation
-      const calendars = await this.client.fetchCalendars();
-      
-      return calendars.map((cal: any) => ({
-        id: cal.url.split('/').pop() || cal.url,
-        name: cal.displayName || cal.url.split('/').pop() || 'Untitled Calendar',
-        description: cal.description,
-        url: cal.url,
-        color: cal.color,
-      }));
+      const resources = await this.propfind(this.calendarHome!, 1, `<d:prop>
+    <d:resourcetype/>
+    <d:displayname/>
+    <c:calendar-description/>
+    <c:supported-calendar-component-set/>
+    <cs:getctag/>
+    <ical:calendar-color/>
+  </d:prop>`);
+
+      return resources
+        .filter((resource) => findChild(findProp(resource, DAV_NS, 'resourcetype'), CALDAV_NS, 'calendar'))
+        .map((resource) => {
+          const id = calendarIdFromUrl(resource.url);
+          const components = findChildren(findProp(resource, CALDAV_NS, 'supported-calendar-component-set'), CALDAV_NS, 'comp')
+            .map((comp) => comp.attributes.name)
+            .filter(Boolean);
+          return {
+            id,
+            name: findProp(resource, DAV_NS, 'displayname')?.text.trim() || id,
+            description: findProp(resource, CALDAV_NS, 'calendar-description')?.text.trim() || undefined,
+            url: resource.url,
+            color: findProp(resource, APPLE_ICAL_NS, 'calendar-color')?.text.trim() || undefined,
+            ctag: findProp(resource, CALENDARSERVER_NS, 'getctag')?.text.trim() || undefined,
+            // Servers that omit the property accept every component type
+            components: components.length > 0 ? components : undefined,
+          };
+        });
     } catch (error) {
-      throw new Error(`Failed to list calendars: ${error}`);
+      throw new Error(`Failed to list calendars: ${error instanceof Error ? error.message : error}`);
     }
   }
 
   /**
-   * Fetch calendar events within a date range
+   * Fetch calendar events within a date range. Recurring events are
+   * returned as one event per occurrence in the range. A calendar that
+   * cannot be read is skipped, or fails the call when strict is set.
    */
   async fetchEvents(params: FetchCalendarEventsParams): Promise<CalendarEvent[]> {
-    if (!this.client) {
-      await this.initialize();
+    const { calendarId, startDate, endDate, strict } = params;
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      throw new Error('startDate and endDate must be valid dates');
     }
 
-    const { calendarId, startDate, endDate } = params;
+    const calendars = await this.resolveCalendars(calendarId);
+    // The server matches a recurring event when any of its occurrences is in the range
+    const filter = `<c:comp-filter name="VEVENT">
+        <c:time-range start="${toUtcStamp(startDate)}" end="${toUtcStamp(endDate)}"/>
+      </c:comp-filter>`;
 
-    try {
-      let calendars: Calendar[];
-      
-      if (calendarId) {
-        // Fetch from specific calendar
-        const allCalendars = await this.listCalendars();
-        const calendar = allCalendars.find((cal) => cal.id === calendarId);
-        if (!calendar) {
-          throw new Error(`Calendar not found: ${calendarId}`);
+    const allEvents: CalendarEvent[] = [];
+    for (const calendar of calendars) {
+      try {
+        for (const object of await this.calendarQuery(calendar.url, filter)) {
+          for (const event of parseEvents(object.data, calendar.id, { start: startDate, end: endDate })) {
+            allEvents.push({ ...event, url: object.url, etag: object.etag });
+          }
         }
-        calendars = [calendar];
-      } else {
-        // Fetch from all calendars
-        calendars = await this.listCalendars();
+      } catch (error) {
+        if (strict) {
+          throw new Error(`Failed to fetch events from calendar ${calendar.id}: ${error instanceof Error ? error.message : error}`);
+        }
+        console.error(`Error fetching events from calendar ${calendar.id}:`, error);
+        // Continue with other calendars
       }
+    }
 
-      const allEvents: CalendarEvent[] = [];
-
-      for (const calendar of calendars) {
-        try {
-          // Fetch calendar objects (events) using CalDAV REPORT request
-          const events = await this.client.fetchCalendarObjects({
-            calendar: calendar.url,
-            timeRange: {
-              start: startDate,
-              end: endDate,
-            },
-          });
-
-          // Parse iCalendar format and convert to CalendarEvent
-          for (const event of events) {
-            const parsedEvent = this.parseICalendar(event.data, calendar.id);
-            if (parsedEvent) {
-              allEvents.push(parsedEvent);
-            }
-          }
-        } catch (error) {
-          console.error(`Error fetching events from calendar ${calendar.id}:`, error);
-          // Continue with other calendars
+    return allEvents.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Busy periods within a date range from a CalDAV free-busy-query (RFC 4791
+   * section 7.10): the server works them out from the events, honouring
+   * TRANSP and STATUS. A calendar that cannot be queried fails the call,
+   * since leaving it out would report its busy time as free.
+   */
+  async queryFreeBusy(params: FetchCalendarEventsParams): Promise<BusyPeriod[]> {
+    const { calendarId, startDate, endDate } = params;
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      throw new Error('startDate and endDate must be valid dates');
+    }
+
+    const busy: BusyPeriod[] = [];
+    for (const calendar of await this.resolveCalendars(calendarId)) {
+      const body = `${XML_HEADER}
+<c:free-busy-query xmlns:c="${CALDAV_NS}">
+  <c:time-range start="${toUtcStamp(startDate)}" end="${toUtcStamp(endDate)}"/>
+</c:free-busy-query>`;
+      try {
+        const response = await this.request('REPORT', calendar.url, body, { Depth: '1' });
+        busy.push(...parseFreeBusy(response.data, calendar.id));
+      } catch (error) {
+        throw new Error(`Free/busy query failed for calendar ${calendar.id}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return busy;
+  }
+
+  /**
+   * Fetch a single event by its UID, or one occurrence of a recurring event
+   * by its occurrence id, together with its iCalendar source
+   */
+  async getEvent(calendarId: string, eventId: string): Promise<{ event: CalendarEvent; ics: string }> {
+    const { object, event } = await this.locateEvent(calendarId, eventId);
+    return { event, ics: object.data };
+  }
+
+  /**
+   * Create an event, in the given calendar or the first one that holds events
+   */
+  async createEvent(calendarId: string | undefined, changes: EventChanges): Promise<CalendarEvent> {
+    const [calendar] = await this.resolveCalendars(calendarId);
+    if (!calendar) {
+      throw new Error('No calendar found that holds events');
+    }
+
+    const uid = crypto.randomUUID();
+    const url = new URL(`${encodeURIComponent(uid)}.ics`, calendar.url).toString();
+    const ics = serializeICalendar([buildCalendarObject(uid, changes)]);
+    // If-None-Match: * never replaces an existing object
+    const response = await this.request('PUT', url, ics, { 'Content-Type': ICALENDAR_CONTENT_TYPE, 'If-None-Match': '*' });
+
+    const [event] = parseEvents(ics, calendar.id);
+    return { ...event, url, etag: response.headers.etag || undefined };
+  }
+
+  /**
+   * Change an event. An occurrence id changes only that occurrence, as an
+   * override of the series. The update is refused if the event has changed
+   * since etag was read (by default, since this call fetched it).
+   */
+  async updateEvent(calendarId: string, eventId: string, changes: EventChanges, etag?: string): Promise<CalendarEvent> {
+    const { calendar, object, event } = await this.locateEvent(calendarId, eventId);
+    const [vcalendar] = parseICalendar(object.data);
+    const uid = event.masterId ?? event.id;
+
+    let component: ICalComponent | undefined;
+    if (event.masterId && event.recurrenceId) {
+      if (changes.rrule !== undefined) {
+        throw new Error(`Recurrence can only be changed for the whole series; update ${uid} instead`);
+      }
+      component = findEventComponent(vcalendar, uid, event.recurrenceId);
+      if (!component) {
+        const master = findEventComponent(vcalendar, uid);
+        if (!master) {
+          throw new Error(`Event not found: ${uid}`);
         }
+        component = addOverride(vcalendar, master, event);
       }
+    } else {
+      component = findEventComponent(vcalendar, uid) ?? vcalendar.components.find((c) => c.name === 'VEVENT');
+    }
+    if (!component) {
+      throw new Error(`Event not found: ${eventId}`);
+    }
 
-      return allEvents;
-    } catch (error) {
-      throw new Error(`Failed to fetch calendar events: ${error}`);
+    applyEventChanges(vcalendar, component, changes);
+    const ics = serializeICalendar([vcalendar]);
+    const response = await this.request('PUT', object.url, ics, {
+      'Content-Type': ICALENDAR_CONTENT_TYPE,
+      ...ifMatch(etag ?? object.etag),
+    });
+
+    const updated = event.masterId && event.recurrenceId
+      ? findOccurrence(ics, calendar.id, uid, event.recurrenceId)
+      : findEvent(ics, calendar.id, uid);
+    return { ...(updated ?? event), url: object.url, etag: response.headers.etag || undefined };
+  }
+
+  /**
+   * Delete an event. An occurrence id removes only that occurrence from its
+   * series (an EXDATE); the series UID deletes the whole series.
+   */
+  async deleteEvent(calendarId: string, eventId: string, etag?: string): Promise<{ url: string; occurrenceOnly: boolean }> {
+    const { object, event } = await this.locateEvent(calendarId, eventId);
+    const headers = ifMatch(etag ?? object.etag);
+
+    if (event.masterId && event.recurrenceId) {
+      const [vcalendar] = parseICalendar(object.data);
+      const master = findEventComponent(vcalendar, event.masterId);
+      if (master) {
+        excludeOccurrence(vcalendar, master, event.recurrenceId);
+        await this.request('PUT', object.url, serializeICalendar([vcalendar]), { 'Content-Type': ICALENDAR_CONTENT_TYPE, ...headers });
+        return { url: object.url, occurrenceOnly: true };
+      }
+
+      // Only this occurrence is stored here (e.g. an invitation to one occurrence)
+      const override = findEventComponent(vcalendar, event.masterId, event.recurrenceId);
+      const others = vcalendar.components.filter((component) => component.name === 'VEVENT' && component !== override);
+      if (override && others.length > 0) {
+        vcalendar.components.splice(vcalendar.components.indexOf(override), 1);
+        await this.request('PUT', object.url, serializeICalendar([vcalendar]), { 'Content-Type': ICALENDAR_CONTENT_TYPE, ...headers });
+        return { url: object.url, occurrenceOnly: true };
+      }
     }
+
+    await this.request('DELETE', object.url, undefined, headers);
+    return { url: object.url, occurrenceOnly: false };
   }
 
   /**
-   * Parse iCalendar format (.ics) to CalendarEvent
-   * 
-   * You might want to use a library like `ical.js` for proper parsing
+   * Find the calendar object holding an event, by UID or occurrence id
    */
-  private parseICalendar(icsData: string, calendarId: string): CalendarEvent | null {
-    try {
-      // Basic parsing - you should use a proper iCalendar parser like `ical.js`
-      // This is a simplified example
-      
-      const lines = icsData.split(/\r?\n/);
-      let event: Partial<CalendarEvent> = {
-        calendarId,
-        status: 'CONFIRMED',
-      };
-
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        
-        if (line.startsWith('SUMMARY:')) {
-          event.summary = line.substring(8).trim();
-        } else if (line.startsWith('DESCRIPTION:')) {
-          event.description = line.substring(12).trim();
-        } else if (line.startsWith('DTSTART')) {
-          const dateStr = line.includes(':') ? line.split(':')[1] : '';
-          event.start = this.parseICalendarDate(dateStr);
-        } else if (line.startsWith('DTEND')) {
-          const dateStr = line.includes(':') ? line.split(':')[1] : '';
-          event.end = this.parseICalendarDate(dateStr);
-        } else if (line.startsWith('LOCATION:')) {
-          event.location = line.substring(9).trim();
-        } else if (line.startsWith('UID:')) {
-          event.id = line.substring(4).trim();
-        } else if (line.startsWith('STATUS:')) {
-          event.status = line.substring(7).trim();
+  private async locateEvent(
+    calendarId: string,
+    eventId: string
+  ): Promise<{ calendar: Calendar; object: CalendarObject; event: CalendarEvent }> {
+    const [calendar] = await this.resolveCalendars(calendarId);
+    const occurrence = parseOccurrenceId(eventId);
+
+    if (occurrence) {
+      for (const object of await this.findObjects(calendar.url, occurrence.uid)) {
+        const event = findOccurrence(object.data, calendar.id, occurrence.uid, occurrence.recurrenceId);
+        if (event) {
+          return { calendar, object, event: { ...event, url: object.url, etag: object.etag } };
         }
       }
+    }
 
-      // Validate required fields
-      if (!event.id || !event.summary || !event.start || !event.end) {
-        return null;
+    // Not an occurrence id, or a UID that merely looks like one
+    for (const object of await this.findObjects(calendar.url, eventId)) {
+      const event = findEvent(object.data, calendar.id, eventId);
+      if (event) {
+        return { calendar, object, event: { ...event, url: object.url, etag: object.etag } };
       }
+    }
 
-      return event as CalendarEvent;
+    throw new Error(`Event not found: ${eventId}`);
+  }
+
+  /**
+   * The calendar objects holding events with this UID
+   */
+  private async findObjects(calendarUrl: string, uid: string): Promise<CalendarObject[]> {
+    try {
+      return await this.calendarQuery(calendarUrl, `<c:comp-filter name="VEVENT">
+        <c:prop-filter name="UID">
+          <c:text-match collation="i;octet">${escapeXml(uid)}</c:text-match>
+        </c:prop-filter>
+      </c:comp-filter>`);
     } catch (error) {
-      console.error('Error parsing iCalendar:', error);
-      return null;
+      throw new Error(`Failed to fetch calendar event: ${error instanceof Error ? error.message : error}`);
     }
   }
 
   /**
-   * Parse iCalendar date format (YYYYMMDDTHHMMSS or YYYYMMDD)
+   * The calendar with this id, or every calendar that holds events
    */
-  private parseICalendarDate(dateStr: string): Date {
-    // Handle timezone and format variations
-    // Basic implementation - use a proper library in production
-    if (dateStr.length === 8) {
-      // Date only: YYYYMMDD
-      const year = parseInt(dateStr.substring(0, 4));
-      const month = parseInt(dateStr.substring(4, 6)) - 1;
-      const day = parseInt(dateStr.substring(6, 8));
-      return new Date(year, month, day);
-    } else if (dateStr.length >= 15) {
-      // DateTime: YYYYMMDDTHHMMSS
-      const year = parseInt(dateStr.substring(0, 4));
-      const month = parseInt(dateStr.substring(4, 6)) - 1;
-      const day = parseInt(dateStr.substring(6, 8));
-      const hour = parseInt(dateStr.substring(9, 11));
-      const minute = parseInt(dateStr.substring(11, 13));
-      const second = parseInt(dateStr.substring(13, 15));
-      return new Date(year, month, day, hour, minute, second);
-    }
-    
-    throw new Error(`Invalid iCalendar date format: ${dateStr}`);
+  private async resolveCalendars(calendarId?: string): Promise<Calendar[]> {
+    const calendars = await this.listCalendars();
+    if (calendarId) {
+      const calendar = calendars.find((cal) => cal.id === calendarId);
+      if (!calendar) {
+        throw new Error(`Calendar not found: ${calendarId}`);
+      }
+      return [calendar];
+    }
+    return calendars.filter((cal) => !cal.components || cal.components.includes('VEVENT'));
   }
+
+  /**
+   * Run a calendar-query REPORT with a comp-filter inside VCALENDAR
+   */
+  private async calendarQuery(calendarUrl: string, compFilter: string): Promise<CalendarObject[]> {
+    const body = `${XML_HEADER}
+<c:calendar-query xmlns:d="DAV:" xmlns:c="${CALDAV_NS}">
+  <d:prop>
+    <d:getetag/>
+    <c:calendar-data/>
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      ${compFilter}
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+    const response = await this.request('REPORT', calendarUrl, body, { Depth: '1' });
+    return parseMultistatus(response.data, calendarUrl)
+      .map((resource) => ({
+        url: resource.url,
+        etag: findProp(resource, DAV_NS, 'getetag')?.text.trim() || undefined,
+        data: findProp(resource, CALDAV_NS, 'calendar-data')?.text || '',
+      }))
+      .filter((object) => object.data.includes('BEGIN:VCALENDAR'));
+  }
+
+  /**
+   * Read a property holding a <href> from a resource, resolved to an absolute URL
+   */
+  private async findHref(url: string, namespace: string, name: string): Promise<string | undefined> {
+    const prefix = namespace === CALDAV_NS ? 'c' : 'd';
+    const [resource] = await this.propfind(url, 0, `<d:prop><${prefix}:${name}/></d:prop>`);
+    const href = findChild(resource && findProp(resource, namespace, name), DAV_NS, 'href')?.text.trim();
+    return href ? new URL(href, resource.url).toString() : undefined;
+  }
+
+  private async propfind(url: string, depth: 0 | 1, prop: string): Promise<DavResource[]> {
+    const body = `${XML_HEADER}
+<d:propfind xmlns:d="DAV:" xmlns:c="${CALDAV_NS}" xmlns:cs="${CALENDARSERVER_NS}" xmlns:ical="${APPLE_ICAL_NS}">
+  ${prop}
+</d:propfind>`;
+    const response = await this.request('PROPFIND', url, body, { Depth: String(depth) });
+    return parseMultistatus(response.data, response.request?.res?.responseUrl || url);
+  }
+
+  /**
+   * Send an authenticated request. A 401 refreshes the access token and retries once.
+   */
+  private async request(
+    method: string,
+    url: string,
+    data?: string,
+    headers: Record<string, string> = {},
+    retried = false
+  ): Promise<AxiosResponse<string>> {
+    const response = await axios.request<string>({
+      method,
+      url,
+      data,
+      headers: {
+        Authorization: `Bearer ${await this.oauth2.getAccessToken()}`,
+        ...(data && { 'Content-Type': 'application/xml; charset=utf-8' }),
+        ...headers,
+      },
+      responseType: 'text',
+      transformResponse: (body) => body,
+      timeout: REQUEST_TIMEOUT,
+      validateStatus: () => true,
+    });
+
+    if (response.status === 401 && !retried) {
+      await this.oauth2.refreshAccessToken();
+      return this.request(method, url, data, headers, true);
+    }
+    if (response.status === 412) {
+      throw new Error(`${method} ${url} failed: the event has changed since it was read, or already exists (HTTP 412). Fetch it again and retry.`);
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`${method} ${url} failed: HTTP ${response.status} ${response.statusText}`.trim());
+    }
+    return response;
+  }
+}
+
+/**
+ * The master event with this UID, or failing that its first override
+ */
+function findEvent(data: string, calendarId: string, uid: string): CalendarEvent | undefined {
+  const events = parseEvents(data, calendarId).filter((event) => event.id === uid);
+  return events.find((event) => !event.recurrenceId) || events[0];
+}
+
+/**
+ * One occurrence of a series: its override if it has one, else the occurrence the rule generates
+ */
+function findOccurrence(data: string, calendarId: string, uid: string, recurrenceId: Date): CalendarEvent | undefined {
+  const time = recurrenceId.getTime();
+  // An override may have moved the occurrence out of its original slot
+  const override = parseEvents(data, calendarId).find((event) => event.id === uid && event.recurrenceId?.getTime() === time);
+  if (override) {
+    return toOccurrence(override);
+  }
+  return parseEvents(data, calendarId, { start: recurrenceId, end: new Date(time + 1) })
+    .find((event) => event.masterId === uid && event.recurrenceId?.getTime() === time);
+}
+
+function ifMatch(etag: string | undefined): Record<string, string> {
+  return etag ? { 'If-Match': etag } : {};
+}
+
+/**
+ * Read a 207 Multi-Status body into resources with their successfully returned properties
+ */
+function parseMultistatus(xml: string, baseUrl: string): DavResource[] {
+  const multistatus = parseXml(xml);
+  if (multistatus.namespace !== DAV_NS || multistatus.name !== 'multistatus') {
+    throw new Error(`Expected a DAV multistatus response, got <${multistatus.name}>`);
+  }
+
+  return findChildren(multistatus, DAV_NS, 'response').map((response) => {
+    const href = findChild(response, DAV_NS, 'href')?.text.trim() || '';
+    const props = findChildren(response, DAV_NS, 'propstat')
+      .filter((propstat) => /\s2\d\d\s/.test(` ${findChild(propstat, DAV_NS, 'status')?.text.trim() || 'HTTP/1.1 200 OK'} `))
+      .flatMap((propstat) => findChild(propstat, DAV_NS, 'prop')?.children || []);
+    return { url: new URL(href, baseUrl).toString(), props };
+  });
+}
+
+function findProp(resource: DavResource, namespace: string, name: string): XmlElement | undefined {
+  return resource.props.find((prop) => prop.namespace === namespace && prop.name === name);
 }
 
 /**
- * Alternative: Manual CalDAV Implementation
- * 
- * If the `dav` library doesn't support OAuth2 properly, you can implement
- * CalDAV requests manually using HTTP requests with OAuth2 Bearer tokens.
- * 
- * Example CalDAV requests:
- * - PROPFIND for listing calendars
- * - REPORT for fetching events
- * - All requests need OAuth2 Authorization header
+ * The last path segment of a calendar collection URL, which ends with a slash
  */
+function calendarIdFromUrl(url: string): string {
+  const segments = new URL(url).pathname.split('/').filter(Boolean);
+  return decodeURIComponent(segments[segments.length - 1] || url);
+}
 
+/**
+ * Format a date as a UTC iCalendar DATE-TIME (YYYYMMDDTHHMMSSZ)
+ */
+function toUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
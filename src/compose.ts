@@ -0,0 +1,216 @@
+/**
+ * Reply and forward composition
+ *
+ * Builds SendEmailParams from an original Email so replies and forwards
+ * keep their threading headers (In-Reply-To / References), subject prefixes
+ * and quoted content consistent.
+ */
+
+import { bodyText } from './body.js';
+import type { Email, EmailAddress, ForwardOptions, ReplyOptions, SendEmailParams } from './types.js';
+
+/**
+ * Build a reply (or reply-all) to an original email
+ */
+export function buildReply(original: Email, options: ReplyOptions, ownAddress: string): SendEmailParams {
+  const { to, cc } = resolveReplyRecipients(original, ownAddress, options.replyAll ?? false);
+
+  if (to.length === 0) {
+    throw new Error('Could not determine reply recipients from the original email');
+  }
+
+  const quote = options.quoteOriginal ?? true;
+  const attribution = `On ${original.date.toUTCString()}, ${formatAddressList(original.from)} wrote:`;
+
+  const params: SendEmailParams = {
+    to: to.map(formatAddress),
+    cc: mergeRecipients(cc.map(formatAddress), options.cc, ownAddress),
+    bcc: options.bcc,
+    subject: prefixSubject(original.subject, 'Re:', /^(re|aw|sv)\s*:/i),
+    inReplyTo: original.messageId || undefined,
+    references: buildReferences(original),
+    attachments: options.attachments,
+  };
+
+  params.text = quote
+    ? `${options.text ? `${options.text}\n\n` : ''}${attribution}\n${quoteText(bodyText(original))}`
+    : options.text;
+
+  if (options.html || (quote && original.html)) {
+    const body = options.html || textToHtml(options.text || '');
+    params.html = quote
+      ? `${body}<br><br><div>${escapeHtml(attribution)}</div>`
+        + `<blockquote type="cite" style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">`
+        + `${original.html || textToHtml(bodyText(original))}</blockquote>`
+      : body;
+  }
+
+  return params;
+}
+
+/**
+ * Build a forward of an original email, optionally re-attaching its attachments
+ *
+ * When includeAttachments is set the original must have been loaded with
+ * attachment content.
+ */
+export function buildForward(original: Email, options: ForwardOptions): SendEmailParams {
+  const headerLines = [
+    '---------- Forwarded message ---------',
+    `From: ${formatAddressList(original.from)}`,
+    `Date: ${original.date.toUTCString()}`,
+    `Subject: ${original.subject}`,
+    `To: ${formatAddressList(original.to)}`,
+    ...(original.cc?.length ? [`Cc: ${formatAddressList(original.cc)}`] : []),
+  ];
+
+  const params: SendEmailParams = {
+    to: options.to,
+    cc: options.cc,
+    bcc: options.bcc,
+    subject: prefixSubject(original.subject, 'Fwd:', /^(fwd?|fw)\s*:/i),
+    // Forwards start a new conversation but still point back at the original
+    references: buildReferences(original),
+    text: `${options.text ? `${options.text}\n\n` : ''}${headerLines.join('\n')}\n\n${bodyText(original)}`,
+  };
+
+  if (options.html || original.html) {
+    const body = options.html || textToHtml(options.text || '');
+    params.html = `${body}<br><br><div>${headerLines.map(escapeHtml).join('<br>')}</div><br>`
+      + `${original.html || textToHtml(bodyText(original))}`;
+  }
+
+  const attachments = [...(options.attachments || [])];
+  if (options.includeAttachments ?? true) {
+    for (const att of original.attachments || []) {
+      if (!att.content) {
+        continue;
+      }
+      attachments.push({
+        filename: att.filename,
+        content: att.content,
+        contentType: att.contentType,
+        cid: att.cid,
+      });
+    }
+  }
+  if (attachments.length > 0) {
+    params.attachments = attachments;
+  }
+
+  return params;
+}
+
+/**
+ * Work out who a reply goes to
+ *
+ * Replies go to Reply-To (or From). Reply-all adds the original To and Cc
+ * recipients as Cc. Our own address is never included. Replying to a message
+ * we sent ourselves goes back to its original recipients.
+ */
+export function resolveReplyRecipients(
+  original: Email,
+  ownAddress: string,
+  replyAll: boolean
+): { to: EmailAddress[]; cc: EmailAddress[] } {
+  const own = ownAddress.toLowerCase();
+  const isOwn = (addr: EmailAddress) => addr.address?.toLowerCase() === own;
+  const sentByUs = original.from.some(isOwn);
+
+  let to = sentByUs
+    ? original.to
+    : (original.replyTo?.length ? original.replyTo : original.from);
+  to = dedupeAddresses(to.filter((addr) => !isOwn(addr)));
+
+  let cc: EmailAddress[] = [];
+  if (replyAll) {
+    const seen = new Set(to.map((addr) => addr.address.toLowerCase()));
+    const candidates = sentByUs ? original.cc || [] : [...original.to, ...(original.cc || [])];
+    cc = dedupeAddresses(candidates).filter(
+      (addr) => !isOwn(addr) && !seen.has(addr.address.toLowerCase())
+    );
+  }
+
+  return { to, cc };
+}
+
+/**
+ * Build the References chain for a reply: the original's references followed by its Message-ID
+ */
+function buildReferences(original: Email): string[] | undefined {
+  const references = [...(original.references || [])];
+  if (original.messageId && !references.includes(original.messageId)) {
+    references.push(original.messageId);
+  }
+  return references.length > 0 ? references : undefined;
+}
+
+/**
+ * Add a subject prefix unless one is already there
+ */
+function prefixSubject(subject: string, prefix: string, existing: RegExp): string {
+  const trimmed = (subject || '').trim();
+  return existing.test(trimmed) ? trimmed : `${prefix} ${trimmed}`;
+}
+
+/**
+ * Combine computed recipients with caller-supplied extras, dropping duplicates and our own address
+ */
+function mergeRecipients(computed: string[], extra: string[] | undefined, ownAddress: string): string[] | undefined {
+  const merged: string[] = [];
+  const seen = new Set<string>([ownAddress.toLowerCase()]);
+  for (const recipient of [...computed, ...(extra || [])]) {
+    const match = recipient.match(/<([^>]+)>/);
+    const key = (match ? match[1] : recipient).trim().toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(recipient);
+    }
+  }
+  return merged.length > 0 ? merged : undefined;
+}
+
+function dedupeAddresses(addresses: EmailAddress[]): EmailAddress[] {
+  const seen = new Set<string>();
+  return addresses.filter((addr) => {
+    const key = addr.address?.toLowerCase();
+    if (!key || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Format an address as a header value, quoting the display name
+ */
+export function formatAddress(addr: EmailAddress): string {
+  if (!addr.name) {
+    return addr.address;
+  }
+  return `"${addr.name.replace(/["\\]/g, '\\$&')}" <${addr.address}>`;
+}
+
+function formatAddressList(addresses: EmailAddress[]): string {
+  return addresses.map(formatAddress).join(', ');
+}
+
+function quoteText(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('>') ? `>${line}` : `> ${line}`))
+    .join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\r?\n/g, '<br>');
+}
@@ -0,0 +1,73 @@
+/**
+ * Opaque pagination cursors for list and search results
+ *
+ * Results are returned newest first, so a page ends at the lowest UID it
+ * returned and the next page continues below it. UIDs only stay meaningful
+ * while a folder's UIDVALIDITY is unchanged, so the cursor records it too.
+ * A search over several folders keeps one position per folder; folders
+ * with nothing left are dropped from the cursor.
+ */
+
+export interface CursorPosition {
+  folder: string;
+  uidValidity: number;
+  /** The next page holds UIDs below this one */
+  lastUid: number;
+}
+
+const CURSOR_VERSION = 1;
+
+/**
+ * Encode folder positions as an opaque cursor string, or undefined when no folder has more results
+ */
+export function encodeCursor(positions: CursorPosition[]): string | undefined {
+  if (positions.length === 0) {
+    return undefined;
+  }
+  const payload = {
+    v: CURSOR_VERSION,
+    p: positions.map((position) => [position.folder, position.uidValidity, position.lastUid]),
+  };
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor returned by encodeCursor
+ */
+export function decodeCursor(cursor: string): CursorPosition[] {
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor: pass nextCursor exactly as returned by the previous call');
+  }
+
+  if (payload?.v !== CURSOR_VERSION || !Array.isArray(payload.p) || payload.p.length === 0) {
+    throw new Error('Invalid cursor: pass nextCursor exactly as returned by the previous call');
+  }
+
+  return payload.p.map((entry: unknown) => {
+    if (
+      !Array.isArray(entry)
+      || typeof entry[0] !== 'string'
+      || !Number.isInteger(entry[1])
+      || !Number.isInteger(entry[2])
+      || entry[2] < 1
+    ) {
+      throw new Error('Invalid cursor: pass nextCursor exactly as returned by the previous call');
+    }
+    return { folder: entry[0], uidValidity: entry[1], lastUid: entry[2] };
+  });
+}
+
+/**
+ * Fail if a folder's UIDVALIDITY changed since the cursor was issued, as its UIDs were reassigned
+ */
+export function checkUidValidity(position: CursorPosition, uidValidity: number): void {
+  if (position.uidValidity !== uidValidity) {
+    throw new Error(
+      `Cursor is no longer valid: folder "${position.folder}" was reset by the server `
+      + `(UIDVALIDITY changed from ${position.uidValidity} to ${uidValidity}). Start again without a cursor.`
+    );
+  }
+}
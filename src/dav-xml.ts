@@ -0,0 +1,133 @@
+/**
+ * Minimal namespace-aware XML reader for WebDAV / CalDAV responses
+ *
+ * Multistatus responses are small and regular, so this parses them into a
+ * plain element tree instead of pulling in an XML library. Element names are
+ * resolved to their namespace URI, since servers pick their own prefixes
+ * (d:, D:, cal:, or a default namespace).
+ */
+
+export interface XmlElement {
+  namespace: string;
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Text directly inside this element, entities decoded */
+  text: string;
+}
+
+export const DAV_NS = 'DAV:';
+export const CALDAV_NS = 'urn:ietf:params:xml:ns:caldav';
+export const CALENDARSERVER_NS = 'http://calendarserver.org/ns/';
+export const APPLE_ICAL_NS = 'http://apple.com/ns/ical/';
+
+/**
+ * Parse an XML document into its root element
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { namespace: '', name: '#document', attributes: {}, children: [], text: '' };
+  const stack: Array<{ element: XmlElement; namespaces: Map<string, string> }> = [
+    { element: root, namespaces: new Map([['xml', 'http://www.w3.org/XML/1998/namespace']]) },
+  ];
+  const tokens = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<(\/?)([^\s/>]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g;
+
+  for (const match of xml.matchAll(tokens)) {
+    const top = stack[stack.length - 1];
+    if (match[1] !== undefined) {
+      top.element.text += match[1];
+      continue;
+    }
+    if (match[6] !== undefined) {
+      top.element.text += decodeXmlEntities(match[6]);
+      continue;
+    }
+    if (!match[3]) {
+      continue;
+    }
+
+    if (match[2]) {
+      if (stack.length === 1) {
+        throw new Error(`Invalid XML: unexpected </${match[3]}>`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    const namespaces = new Map(top.namespaces);
+    const rawAttributes: Array<[string, string]> = [];
+    for (const attr of match[4].matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      const value = decodeXmlEntities(attr[2] ?? attr[3]);
+      if (attr[1] === 'xmlns') {
+        namespaces.set('', value);
+      } else if (attr[1].startsWith('xmlns:')) {
+        namespaces.set(attr[1].slice(6), value);
+      } else {
+        rawAttributes.push([attr[1], value]);
+      }
+    }
+
+    const [prefix, name] = splitName(match[3]);
+    const element: XmlElement = {
+      namespace: namespaces.get(prefix) ?? '',
+      name,
+      attributes: Object.fromEntries(rawAttributes.map(([key, value]) => [splitName(key)[1], value])),
+      children: [],
+      text: '',
+    };
+    top.element.children.push(element);
+    if (!match[5]) {
+      stack.push({ element, namespaces });
+    }
+  }
+
+  const [document] = root.children;
+  if (!document) {
+    throw new Error('Invalid XML: no root element');
+  }
+  return document;
+}
+
+/**
+ * The first child element with this namespace and name
+ */
+export function findChild(element: XmlElement | undefined, namespace: string, name: string): XmlElement | undefined {
+  return element?.children.find((child) => child.namespace === namespace && child.name === name);
+}
+
+/**
+ * All child elements with this namespace and name
+ */
+export function findChildren(element: XmlElement | undefined, namespace: string, name: string): XmlElement[] {
+  return element?.children.filter((child) => child.namespace === namespace && child.name === name) || [];
+}
+
+/**
+ * Escape text for use in element content or attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function splitName(qualified: string): [string, string] {
+  const colon = qualified.indexOf(':');
+  return colon < 0 ? ['', qualified] : [qualified.slice(0, colon), qualified.slice(colon + 1)];
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#\d+|#x[0-9a-fA-F]+|amp|lt|gt|quot|apos);/g, (_match, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
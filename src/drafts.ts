@@ -0,0 +1,127 @@
+/**
+ * Draft management for Yahoo Mail
+ *
+ * Drafts are stored as RFC 822 messages in the special-use Drafts mailbox
+ * with the \Draft flag, so they show up in the Yahoo web UI for review.
+ * IMAP messages are immutable: updating a draft appends a new message and
+ * removes the old UID.
+ */
+
+import { formatAddress } from './compose.js';
+import type { DraftResult, Email, EmailPage, SendEmailParams } from './types.js';
+import type { YahooIMAPClient } from './imap-client.js';
+import type { YahooSMTPClient } from './smtp-client.js';
+
+export class YahooDrafts {
+  private imap: YahooIMAPClient;
+  private smtp: YahooSMTPClient;
+  private draftsFolder?: string;
+
+  constructor(imap: YahooIMAPClient, smtp: YahooSMTPClient) {
+    this.imap = imap;
+    this.smtp = smtp;
+  }
+
+  /**
+   * Resolve the Drafts mailbox from its special-use attribute
+   */
+  async getDraftsFolder(): Promise<string> {
+    if (!this.draftsFolder) {
+      this.draftsFolder = await this.imap.findSpecialUseMailbox('\\Drafts', ['Draft', 'Drafts']);
+      if (!this.draftsFolder) {
+        throw new Error('Drafts folder not found');
+      }
+    }
+    return this.draftsFolder;
+  }
+
+  /**
+   * Create a new draft
+   */
+  async createDraft(params: SendEmailParams): Promise<DraftResult> {
+    const folder = await this.getDraftsFolder();
+    const { messageId, raw } = await this.smtp.composeMessage(params);
+
+    let uid = await this.imap.appendMessage(raw, folder, ['\\Draft', '\\Seen']);
+    if (uid === undefined) {
+      // Server without UIDPLUS: look the draft up by its Message-ID instead
+      const matches = await this.imap.findByMessageId(messageId, folder);
+      uid = matches.length > 0 ? Math.max(...matches) : undefined;
+    }
+
+    return { uid, messageId, folder };
+  }
+
+  /**
+   * Update a draft. Fields not given keep their current values, except
+   * that a new text body drops the old HTML body and the other way round,
+   * so the two never disagree. The draft gets a new UID; the old message
+   * is removed.
+   */
+  async updateDraft(uid: number, changes: Partial<SendEmailParams>): Promise<DraftResult> {
+    const current = await this.loadDraft(uid);
+    const merged: SendEmailParams = { ...current };
+    if (changes.text !== undefined && changes.html === undefined) {
+      delete merged.html;
+    }
+    if (changes.html !== undefined && changes.text === undefined) {
+      delete merged.text;
+    }
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (value !== undefined) {
+        (merged as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    const result = await this.createDraft(merged);
+    await this.deleteDraft(uid);
+    return result;
+  }
+
+  /**
+   * List drafts, most recent first. cursor is the nextCursor of a previous page.
+   */
+  async listDrafts(limit: number = 50, cursor?: string): Promise<EmailPage> {
+    const folder = await this.getDraftsFolder();
+    return this.imap.fetchEmailPage({ folder, limit, cursor });
+  }
+
+  /**
+   * Permanently delete a draft
+   */
+  async deleteDraft(uid: number): Promise<void> {
+    const folder = await this.getDraftsFolder();
+    await this.imap.expungeMessages([uid], folder);
+  }
+
+  /**
+   * Load a draft back into SendEmailParams, including attachment content
+   */
+  async loadDraft(uid: number): Promise<SendEmailParams> {
+    const folder = await this.getDraftsFolder();
+    const draft = await this.imap.getEmail(uid.toString(), folder, { includeAttachmentContent: true });
+
+    const formatList = (addresses?: Email['to']) =>
+      addresses && addresses.length > 0 ? addresses.map(formatAddress) : undefined;
+
+    return {
+      to: formatList(draft.to) || [],
+      cc: formatList(draft.cc),
+      bcc: formatList(draft.bcc),
+      subject: draft.subject === '(No Subject)' ? '' : draft.subject,
+      text: draft.text,
+      html: draft.html,
+      inReplyTo: draft.inReplyTo,
+      references: draft.references,
+      attachments: draft.attachments
+        ?.filter((att) => att.content)
+        .map((att) => ({
+          filename: att.filename,
+          content: att.content,
+          contentType: att.contentType,
+          cid: att.cid,
+        })),
+    };
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Meeting slot finder
+ *
+ * Finds times of a given length inside working hours that no busy period
+ * (plus buffers around it) touches, then ranks them. Busy periods come
+ * either from fetched events, where cancelled and transparent (free) events
+ * are skipped, or from a CalDAV free/busy query. Candidate starts are on a
+ * wall-clock grid (every 30 minutes by default) in the requested time zone.
+ *
+ * Ranking prefers, in this order of weight:
+ *   fit    slots at the edge of a free gap, which leave the rest of the gap in one piece
+ *   load   days with less busy time
+ *   soon   earlier slots
+ * and returns at most a few slots per day so the choice spans several days.
+ */
+
+import { epochToWallTime, fromWallTime, toWallTime, wallTimeToEpoch } from './timezone.js';
+import type { BusyPeriod, CalendarEvent } from './types.js';
+
+export interface WorkingHours {
+  /** HH:MM */
+  start: string;
+  /** HH:MM; before start for hours that run past midnight */
+  end: string;
+  /** Working weekdays, 0 = Sunday */
+  days: number[];
+}
+
+export interface FreeSlotOptions {
+  start: Date;
+  end: Date;
+  /** Minutes */
+  duration: number;
+  /** IANA time zone for working hours and the slot grid */
+  timeZone: string;
+  workingHours: WorkingHours;
+  /** Minutes kept free after each busy period, before a slot */
+  bufferBefore: number;
+  /** Minutes kept free after a slot, before the next busy period */
+  bufferAfter: number;
+  /** Minutes between candidate starts */
+  step: number;
+  limit: number;
+}
+
+export interface FreeSlot {
+  start: Date;
+  end: Date;
+  /** 0-100, higher is better */
+  score: number;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const WEIGHTS = { fit: 0.4, load: 0.35, soon: 0.25 };
+
+/** Most slots returned for one day */
+const MAX_PER_DAY = 3;
+
+/**
+ * The periods events keep busy: cancelled events and ones marked free (TRANSP:TRANSPARENT) are skipped
+ */
+export function busyFromEvents(events: CalendarEvent[]): BusyPeriod[] {
+  return events
+    .filter((event) => event.status !== 'CANCELLED' && event.transparency !== 'TRANSPARENT')
+    .map((event) => ({
+      start: event.start,
+      end: event.end,
+      type: event.status === 'TENTATIVE' ? 'BUSY-TENTATIVE' : 'BUSY',
+      calendarId: event.calendarId,
+      summary: event.summary,
+    }));
+}
+
+/**
+ * Parse "HH:MM" into minutes after midnight; 24:00 is accepted as the end of the day
+ */
+export function parseClockTime(value: string): number {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  const minutes = match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : NaN;
+  if (!match || parseInt(match[2], 10) > 59 || !(minutes <= 24 * 60)) {
+    throw new Error(`Invalid time: ${value}. Use HH:MM, e.g. 09:00.`);
+  }
+  return minutes;
+}
+
+/**
+ * A slot time as the wall clock shows it, e.g. "Mon 2024-03-04 10:30"
+ */
+export function formatSlotTime(date: Date, timeZone: string): string {
+  const wall = toWallTime(date, timeZone);
+  const weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay()];
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${weekday} ${wall.year}-${pad(wall.month)}-${pad(wall.day)} ${pad(wall.hour)}:${pad(wall.minute)}`;
+}
+
+/**
+ * Free slots of the requested length, best first
+ */
+export function findFreeSlots(busy: BusyPeriod[], options: FreeSlotOptions): FreeSlot[] {
+  if (!(options.step > 0)) {
+    throw new Error(`Invalid slot step: ${options.step}. It must be a positive number of minutes.`);
+  }
+  const duration = options.duration * MINUTE;
+  const step = options.step * MINUTE;
+  const blocked = mergeIntervals(busy.map((period) => ({
+    start: period.start.getTime() - options.bufferAfter * MINUTE,
+    end: period.end.getTime() + options.bufferBefore * MINUTE,
+  })));
+
+  const range = { start: options.start.getTime(), end: options.end.getTime() };
+  const candidates: Array<FreeSlot & { day: string; fit: number; load: number; soon: number }> = [];
+
+  for (const { day, window } of workingWindows(options)) {
+    const windowLength = window.end - window.start;
+    const busyInWindow = busy.reduce((total, period) => total + overlap(window, {
+      start: period.start.getTime(),
+      end: period.end.getTime(),
+    }), 0);
+    const load = 1 - Math.min(1, busyInWindow / windowLength);
+
+    for (const gap of subtractIntervals(window, blocked)) {
+      // The first and last starts on the grid are the gap's edges
+      const first = alignToGrid(gap.start, step, options.timeZone);
+      const last = first + Math.floor((gap.end - duration - first) / step) * step;
+      for (let start = first; start <= last; start += step) {
+        const end = start + duration;
+        candidates.push({
+          start: new Date(start),
+          end: new Date(end),
+          score: 0,
+          day,
+          fit: start === first || start === last ? 1 : 0,
+          load,
+          soon: 1 - (start - range.start) / Math.max(1, range.end - range.start),
+        });
+      }
+    }
+  }
+
+  for (const candidate of candidates) {
+    candidate.score = Math.round(100 * (WEIGHTS.fit * candidate.fit + WEIGHTS.load * candidate.load + WEIGHTS.soon * candidate.soon));
+  }
+  candidates.sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+
+  // Take the best slots that do not overlap each other, a few per day
+  const chosen: typeof candidates = [];
+  const perDay = new Map<string, number>();
+  for (const candidate of candidates) {
+    if (chosen.length >= options.limit) {
+      break;
+    }
+    if ((perDay.get(candidate.day) || 0) >= MAX_PER_DAY
+      || chosen.some((slot) => candidate.start < slot.end && slot.start < candidate.end)) {
+      continue;
+    }
+    chosen.push(candidate);
+    perDay.set(candidate.day, (perDay.get(candidate.day) || 0) + 1);
+  }
+
+  return chosen.map(({ start, end, score }) => ({ start, end, score }));
+}
+
+/**
+ * Working hours of each working day in the range, clipped to it
+ */
+function workingWindows(options: FreeSlotOptions): Array<{ day: string; window: Interval }> {
+  const startMinutes = parseClockTime(options.workingHours.start);
+  let endMinutes = parseClockTime(options.workingHours.end);
+  if (endMinutes <= startMinutes) {
+    endMinutes += 24 * 60;
+  }
+
+  const windows: Array<{ day: string; window: Interval }> = [];
+  const first = toWallTime(options.start, options.timeZone);
+  const last = toWallTime(options.end, options.timeZone);
+  // Start a day early so hours running past midnight are not missed
+  for (
+    let day = Date.UTC(first.year, first.month - 1, first.day) - DAY;
+    day <= Date.UTC(last.year, last.month - 1, last.day);
+    day += DAY
+  ) {
+    const date = new Date(day);
+    if (!options.workingHours.days.includes(date.getUTCDay())) {
+      continue;
+    }
+    const window = {
+      start: Math.max(atMinutes(date, startMinutes, options.timeZone), options.start.getTime()),
+      end: Math.min(atMinutes(date, endMinutes, options.timeZone), options.end.getTime()),
+    };
+    if (window.end > window.start) {
+      windows.push({ day: date.toISOString().slice(0, 10), window });
+    }
+  }
+  return windows;
+}
+
+/**
+ * The instant some minutes after midnight of a date (a UTC midnight standing for the wall date) in a time zone
+ */
+function atMinutes(date: Date, minutes: number, timeZone: string): number {
+  return fromWallTime(epochToWallTime(date.getTime() + minutes * MINUTE), timeZone).getTime();
+}
+
+/**
+ * The first instant at or after time that is on the wall-clock grid
+ */
+function alignToGrid(time: number, step: number, timeZone: string): number {
+  const wall = wallTimeToEpoch(toWallTime(new Date(time), timeZone));
+  return time + (Math.ceil(wall / step) * step - wall);
+}
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const merged: Interval[] = [];
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * The parts of a window that no blocked interval covers; blocked must be merged and sorted
+ */
+function subtractIntervals(window: Interval, blocked: Interval[]): Interval[] {
+  const gaps: Interval[] = [];
+  let cursor = window.start;
+  for (const interval of blocked) {
+    if (interval.end <= cursor || interval.start >= window.end) {
+      continue;
+    }
+    if (interval.start > cursor) {
+      gaps.push({ start: cursor, end: interval.start });
+    }
+    cursor = Math.max(cursor, interval.end);
+  }
+  if (cursor < window.end) {
+    gaps.push({ start: cursor, end: window.end });
+  }
+  return gaps;
+}
+
+function overlap(a: Interval, b: Interval): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
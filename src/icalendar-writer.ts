@@ -0,0 +1,506 @@
+/**
+ * iCalendar (RFC 5545) generation
+ *
+ * Builds and edits VEVENTs on the component tree that icalendar.ts parses,
+ * so properties this server does not manage (X- properties, other clients'
+ * data) survive an update, then serializes the tree with TEXT escaping and
+ * 75-octet line folding. Times with a time zone are written with a TZID and
+ * a VTIMEZONE generated from Intl's rules for that zone.
+ */
+
+import {
+  dateClock,
+  getProperties,
+  getProperty,
+  parseDateProperty,
+  parseDuration,
+  parseTimeZones,
+  type ICalComponent,
+  type ICalProperty,
+  type TimeZoneTable,
+} from './icalendar.js';
+import {
+  LOCAL_CLOCK,
+  UTC_CLOCK,
+  epochToWallTime,
+  isValidTimeZone,
+  timeZoneOffset,
+  zoneClock,
+  type WallClock,
+  type WallTime,
+} from './timezone.js';
+import type { CalendarEvent, EmailAddress, EventAttendee, EventChanges } from './types.js';
+
+const PRODID = '-//yahoo-mail-mcp//Yahoo Mail MCP Server//EN';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/** Longest line in octets, excluding the CRLF */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * A new VCALENDAR holding one event. Timed events default to one hour, all-day events to one day.
+ */
+export function buildCalendarObject(uid: string, changes: EventChanges, now = new Date()): ICalComponent {
+  if (!changes.start) {
+    throw new Error('An event needs a start');
+  }
+
+  const event: ICalComponent = {
+    name: 'VEVENT',
+    properties: [property('UID', uid), property('CREATED', utcStamp(now))],
+    components: [],
+  };
+  const calendar: ICalComponent = {
+    name: 'VCALENDAR',
+    properties: [property('VERSION', '2.0'), property('PRODID', PRODID), property('CALSCALE', 'GREGORIAN')],
+    components: [event],
+  };
+
+  const start = changes.start;
+  const end = changes.end ?? (changes.allDay
+    ? new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1)
+    : new Date(start.getTime() + HOUR));
+  applyEventChanges(calendar, event, { summary: '(No title)', ...changes, end }, now);
+  return calendar;
+}
+
+/**
+ * Apply changes to a VEVENT of a VCALENDAR, bumping its SEQUENCE and timestamps
+ */
+export function applyEventChanges(calendar: ICalComponent, event: ICalComponent, changes: EventChanges, now = new Date()): void {
+  setText(event, 'SUMMARY', changes.summary);
+  setText(event, 'DESCRIPTION', changes.description);
+  setText(event, 'LOCATION', changes.location);
+
+  if (changes.start || changes.end || changes.allDay !== undefined || changes.timezone) {
+    setTimes(calendar, event, changes);
+  }
+  if (changes.attendees) {
+    setAttendees(event, changes.attendees, changes.organizer);
+  }
+  if (changes.reminders) {
+    setReminders(event, changes.reminders);
+  }
+  if (changes.rrule !== undefined) {
+    removeProperties(event, 'RRULE');
+    if (changes.rrule) {
+      event.properties.push(property('RRULE', changes.rrule));
+    }
+  }
+  if (changes.transparency) {
+    setValue(event, 'TRANSP', changes.transparency.toUpperCase());
+  }
+  if (changes.status) {
+    setValue(event, 'STATUS', changes.status.toUpperCase());
+  }
+
+  touch(event, now);
+}
+
+/**
+ * Add an override VEVENT for one occurrence of a series, copied from the
+ * master, and return it for editing
+ */
+export function addOverride(calendar: ICalComponent, master: ICalComponent, occurrence: CalendarEvent): ICalComponent {
+  const dtstart = getProperty(master, 'DTSTART');
+  if (!dtstart || !occurrence.recurrenceId) {
+    throw new Error('Not an occurrence of a recurring event');
+  }
+  const zones = parseTimeZones(calendar);
+
+  const override: ICalComponent = JSON.parse(JSON.stringify(master));
+  removeProperties(override, 'RRULE', 'RDATE', 'EXDATE', 'RECURRENCE-ID', 'DTSTART', 'DTEND', 'DURATION');
+  override.properties.push(
+    dateLike('RECURRENCE-ID', dtstart, occurrence.recurrenceId, zones),
+    dateLike('DTSTART', dtstart, occurrence.start, zones),
+    dateLike('DTEND', getProperty(master, 'DTEND') || dtstart, occurrence.end, zones)
+  );
+
+  calendar.components.splice(calendar.components.indexOf(master) + 1, 0, override);
+  return override;
+}
+
+/**
+ * Remove one occurrence from a series: an EXDATE on the master, and its override if it has one
+ */
+export function excludeOccurrence(calendar: ICalComponent, master: ICalComponent, recurrenceId: Date, now = new Date()): void {
+  const dtstart = getProperty(master, 'DTSTART');
+  const uid = getProperty(master, 'UID')?.value.trim();
+  if (!dtstart || !uid) {
+    throw new Error('Not a recurring event');
+  }
+
+  master.properties.push(dateLike('EXDATE', dtstart, recurrenceId, parseTimeZones(calendar)));
+  const override = findEventComponent(calendar, uid, recurrenceId);
+  if (override) {
+    calendar.components.splice(calendar.components.indexOf(override), 1);
+  }
+  touch(master, now);
+}
+
+/**
+ * The VEVENT with this UID: the master, or with a recurrence id the override of that occurrence
+ */
+export function findEventComponent(calendar: ICalComponent, uid: string, recurrenceId?: Date): ICalComponent | undefined {
+  const zones = parseTimeZones(calendar);
+  return calendar.components.find((component) => {
+    if (component.name !== 'VEVENT' || getProperty(component, 'UID')?.value.trim() !== uid) {
+      return false;
+    }
+    const recurrence = getProperty(component, 'RECURRENCE-ID');
+    if (!recurrenceId || !recurrence) {
+      return !recurrenceId && !recurrence;
+    }
+    return parseDateProperty(recurrence, zones).date.getTime() === recurrenceId.getTime();
+  });
+}
+
+/**
+ * Serialize components (normally one VCALENDAR) as iCalendar text
+ */
+export function serializeICalendar(components: ICalComponent[]): string {
+  const lines: string[] = [];
+  const write = (component: ICalComponent) => {
+    lines.push(`BEGIN:${component.name}`);
+    for (const prop of component.properties) {
+      lines.push(contentLine(prop));
+    }
+    component.components.forEach(write);
+    lines.push(`END:${component.name}`);
+  };
+  components.forEach(write);
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Escape a TEXT value: backslash, semicolon, comma and newlines
+ */
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * A VTIMEZONE for an IANA zone, with the offsets and transitions Intl reports
+ * in the year of an instant. Yearly DST changes are written as a rule.
+ */
+export function buildTimeZone(timeZone: string, around: Date): ICalComponent {
+  const year = around.getUTCFullYear();
+  const transitions = findTransitions(timeZone, year);
+
+  const observances = transitions.length === 0
+    ? [observance('STANDARD', { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0 },
+      timeZoneOffset(around, timeZone), timeZoneOffset(around, timeZone))]
+    : transitions.map((transition) => {
+      const onset = epochToWallTime(transition.instant + transition.offsetFrom);
+      const component = observance(
+        transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD',
+        onset,
+        transition.offsetFrom,
+        transition.offsetTo
+      );
+      // Two changes a year is a DST pattern that repeats; anything else is a one-off
+      if (transitions.length === 2) {
+        component.properties.push(property('RRULE', `FREQ=YEARLY;BYMONTH=${onset.month};BYDAY=${weekdayRule(onset)}`));
+      }
+      return component;
+    });
+
+  return { name: 'VTIMEZONE', properties: [property('TZID', timeZone)], components: observances };
+}
+
+/**
+ * Write a DTSTART and DTEND, keeping the event's current zone unless changed
+ */
+function setTimes(calendar: ICalComponent, event: ICalComponent, changes: EventChanges): void {
+  const zones = parseTimeZones(calendar);
+  const dtstart = getProperty(event, 'DTSTART');
+  const current = dtstart ? parseDateProperty(dtstart, zones) : undefined;
+  const currentEnd = currentEndTime(event, zones, current?.date);
+
+  const allDay = changes.allDay ?? current?.allDay ?? false;
+  let start = changes.start ?? current?.date;
+  if (!start) {
+    throw new Error('An event needs a start');
+  }
+  // Moving the start keeps the event's length unless a new end is given
+  let end = changes.end ?? (current && currentEnd ? new Date(start.getTime() + currentEnd.getTime() - current.date.getTime()) : start);
+
+  removeProperties(event, 'DTSTART', 'DTEND', 'DURATION');
+  if (allDay) {
+    start = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    const lastDay = new Date(end.getTime() - 1);
+    end = new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1);
+    if (end <= start) {
+      end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    }
+    event.properties.push(dateProperty('DTSTART', start, true), dateProperty('DTEND', end, true));
+    return;
+  }
+
+  let zone: { tzid: string; clock: WallClock } | undefined;
+  if (changes.timezone) {
+    if (!isValidTimeZone(changes.timezone)) {
+      throw new Error(`Unknown time zone: ${changes.timezone}. Use an IANA name such as Europe/Berlin.`);
+    }
+    zone = { tzid: changes.timezone, clock: zoneClock(changes.timezone) };
+  } else if (dtstart?.params.TZID?.[0] && !current?.allDay) {
+    zone = { tzid: dtstart.params.TZID[0], clock: dateClock(dtstart, zones) };
+  }
+
+  if (zone && !zones.has(zone.tzid) && isValidTimeZone(zone.tzid)) {
+    const firstEvent = calendar.components.findIndex((component) => component.name !== 'VTIMEZONE');
+    calendar.components.splice(firstEvent < 0 ? calendar.components.length : firstEvent, 0, buildTimeZone(zone.tzid, start));
+  }
+  event.properties.push(dateProperty('DTSTART', start, false, zone), dateProperty('DTEND', end, false, zone));
+}
+
+function currentEndTime(event: ICalComponent, zones: TimeZoneTable, start: Date | undefined): Date | undefined {
+  const dtend = getProperty(event, 'DTEND');
+  if (dtend) {
+    return parseDateProperty(dtend, zones).date;
+  }
+  const duration = getProperty(event, 'DURATION');
+  return duration && start ? new Date(start.getTime() + parseDuration(duration.value)) : undefined;
+}
+
+/**
+ * Replace the attendees, keeping the parameters (responses) of those that stay
+ */
+function setAttendees(event: ICalComponent, attendees: EventAttendee[], organizer: EmailAddress | undefined): void {
+  const existing = new Map(getProperties(event, 'ATTENDEE').map((prop) => [mailAddress(prop).toLowerCase(), prop]));
+  removeProperties(event, 'ATTENDEE');
+
+  for (const attendee of attendees) {
+    const previous = existing.get(attendee.address.toLowerCase());
+    const params: Record<string, string[]> = previous
+      ? { ...previous.params }
+      : { PARTSTAT: ['NEEDS-ACTION'], RSVP: ['TRUE'] };
+    params.ROLE = [attendee.role || previous?.params.ROLE?.[0] || 'REQ-PARTICIPANT'];
+    if (attendee.name) {
+      params.CN = [attendee.name];
+    }
+    if (attendee.type) {
+      params.CUTYPE = [attendee.type];
+    }
+    event.properties.push({ name: 'ATTENDEE', params, value: `mailto:${attendee.address}` });
+  }
+
+  if (attendees.length > 0 && organizer && !getProperty(event, 'ORGANIZER')) {
+    event.properties.push({
+      name: 'ORGANIZER',
+      params: organizer.name ? { CN: [organizer.name] } : {},
+      value: `mailto:${organizer.address}`,
+    });
+  }
+}
+
+/**
+ * Replace the VALARMs with one display reminder per lead time
+ */
+function setReminders(event: ICalComponent, minutesBefore: number[]): void {
+  const summary = getProperty(event, 'SUMMARY')?.value || 'Reminder';
+  event.components = [
+    ...event.components.filter((component) => component.name !== 'VALARM'),
+    ...minutesBefore.map((minutes) => ({
+      name: 'VALARM',
+      properties: [
+        property('ACTION', 'DISPLAY'),
+        property('DESCRIPTION', summary),
+        property('TRIGGER', formatLeadTime(minutes)),
+      ],
+      components: [],
+    })),
+  ];
+}
+
+/**
+ * Bump SEQUENCE and set DTSTAMP and LAST-MODIFIED
+ */
+function touch(event: ICalComponent, now: Date): void {
+  const sequence = getProperty(event, 'SEQUENCE');
+  setValue(event, 'SEQUENCE', sequence ? String((parseInt(sequence.value, 10) || 0) + 1) : '0');
+  setValue(event, 'DTSTAMP', utcStamp(now));
+  setValue(event, 'LAST-MODIFIED', utcStamp(now));
+}
+
+/**
+ * A date property written the way another one is: as a date, in UTC, or in the same TZID or floating time
+ */
+function dateLike(name: string, reference: ICalProperty, date: Date, zones: TimeZoneTable): ICalProperty {
+  const value = reference.value.trim();
+  if (!value.includes('T') || reference.params.VALUE?.[0]?.toUpperCase() === 'DATE') {
+    return dateProperty(name, date, true);
+  }
+  if (value.endsWith('Z')) {
+    return dateProperty(name, date, false);
+  }
+  const tzid = reference.params.TZID?.[0];
+  const wall = dateClock(reference, zones).toWall(date);
+  return { name, params: tzid ? { TZID: [tzid] } : {}, value: formatWallTime(wall) };
+}
+
+function dateProperty(name: string, date: Date, allDay: boolean, zone?: { tzid: string; clock: WallClock }): ICalProperty {
+  if (allDay) {
+    return { name, params: { VALUE: ['DATE'] }, value: formatWallTime(LOCAL_CLOCK.toWall(date)).slice(0, 8) };
+  }
+  if (zone) {
+    return { name, params: { TZID: [zone.tzid] }, value: formatWallTime(zone.clock.toWall(date)) };
+  }
+  return property(name, utcStamp(date));
+}
+
+function findTransitions(timeZone: string, year: number): Array<{ instant: number; offsetFrom: number; offsetTo: number }> {
+  const transitions: Array<{ instant: number; offsetFrom: number; offsetTo: number }> = [];
+  let previous = Date.UTC(year, 0, 1);
+  let offset = timeZoneOffset(new Date(previous), timeZone);
+  for (let month = 1; month <= 12; month++) {
+    const next = Date.UTC(year, month, 1);
+    const nextOffset = timeZoneOffset(new Date(next), timeZone);
+    if (nextOffset !== offset) {
+      // Narrow down to the minute the offset changes
+      let low = previous;
+      let high = next;
+      while (high - low > MINUTE) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE;
+        if (timeZoneOffset(new Date(middle), timeZone) === offset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ instant: high, offsetFrom: offset, offsetTo: nextOffset });
+    }
+    previous = next;
+    offset = nextOffset;
+  }
+  return transitions;
+}
+
+function observance(name: string, onset: WallTime, offsetFrom: number, offsetTo: number): ICalComponent {
+  return {
+    name,
+    properties: [
+      property('DTSTART', formatWallTime(onset)),
+      property('TZOFFSETFROM', formatUtcOffset(offsetFrom)),
+      property('TZOFFSETTO', formatUtcOffset(offsetTo)),
+    ],
+    components: [],
+  };
+}
+
+/**
+ * BYDAY for the weekday of a date within its month: 2SU, or -1SU in the last week
+ */
+function weekdayRule(wall: WallTime): string {
+  const weekday = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay()];
+  const daysInMonth = new Date(Date.UTC(wall.year, wall.month, 0)).getUTCDate();
+  return wall.day > daysInMonth - 7 ? `-1${weekday}` : `${Math.ceil(wall.day / 7)}${weekday}`;
+}
+
+/**
+ * A reminder TRIGGER: minutes before the start as a negative duration, e.g. -PT15M or -P1D
+ */
+function formatLeadTime(minutes: number): string {
+  if (!Number.isInteger(minutes) || minutes < 0) {
+    throw new Error(`Invalid reminder: ${minutes}. Give whole minutes before the start.`);
+  }
+  if (minutes === 0) {
+    return 'PT0S';
+  }
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+  const time = `${hours ? `${hours}H` : ''}${rest ? `${rest}M` : ''}`;
+  return `-P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+function formatUtcOffset(offset: number): string {
+  const total = Math.abs(offset) / 1000;
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  return `${offset < 0 ? '-' : '+'}${pad(hours)}${pad(minutes)}${seconds ? pad(seconds) : ''}`;
+}
+
+function formatWallTime(wall: WallTime): string {
+  return `${wall.year}${pad(wall.month)}${pad(wall.day)}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`;
+}
+
+function utcStamp(date: Date): string {
+  return `${formatWallTime(UTC_CLOCK.toWall(date))}Z`;
+}
+
+function setText(component: ICalComponent, name: string, text: string | undefined): void {
+  if (text === undefined) {
+    return;
+  }
+  removeProperties(component, name);
+  if (text) {
+    component.properties.push(property(name, escapeText(text)));
+  }
+}
+
+function setValue(component: ICalComponent, name: string, value: string): void {
+  removeProperties(component, name);
+  component.properties.push(property(name, value));
+}
+
+function removeProperties(component: ICalComponent, ...names: string[]): void {
+  component.properties = component.properties.filter((prop) => !names.includes(prop.name));
+}
+
+function property(name: string, value: string): ICalProperty {
+  return { name, params: {}, value };
+}
+
+function mailAddress(prop: ICalProperty): string {
+  return prop.value.trim().replace(/^mailto:/i, '');
+}
+
+/**
+ * NAME;PARAM=value:value, quoting parameter values that need it and encoding
+ * characters a parameter cannot hold as RFC 6868 ^ escapes
+ */
+function contentLine(prop: ICalProperty): string {
+  const params = Object.entries(prop.params).map(([name, values]) => `;${name}=${values.map((value) => {
+    const encoded = value.replace(/\^/g, '^^').replace(/\r?\n/g, '^n').replace(/"/g, "^'");
+    return /[:;,]/.test(encoded) ? `"${encoded}"` : encoded;
+  }).join(',')}`);
+  return `${prop.name}${params.join('')}:${prop.value}`;
+}
+
+/**
+ * Fold a line into 75-octet pieces, never splitting a UTF-8 character
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+  const pieces: string[] = [];
+  let piece = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(piece);
+      piece = '';
+      octets = 0;
+    }
+    piece += char;
+    octets += size;
+  }
+  pieces.push(piece);
+  return pieces.join('\r\n ');
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,604 @@
+/**
+ * iCalendar (RFC 5545) parsing
+ *
+ * Parses calendar objects into a component tree (VCALENDAR > VEVENT,
+ * VTIMEZONE, VALARM...) after unfolding continuation lines, then maps each
+ * VEVENT to a CalendarEvent. Property parameters are kept, so attendees get
+ * their CN, ROLE and PARTSTAT, and dates with a TZID are resolved in that
+ * zone: through Intl when the TZID is an IANA name, otherwise through the
+ * VTIMEZONE definition sent with the object. Dates without a zone
+ * ("floating") and all-day dates use the server's local time zone.
+ */
+
+import { expandSeries, parseRuleParts, toOccurrence, type DateRange } from './recurrence.js';
+import {
+  LOCAL_CLOCK,
+  UTC_CLOCK,
+  epochToWallTime,
+  fromWallTime,
+  isValidTimeZone,
+  wallTimeToEpoch,
+  zoneClock,
+  type WallClock,
+  type WallTime,
+} from './timezone.js';
+import type { BusyPeriod, CalendarEvent, EmailAddress, EventAttendee } from './types.js';
+
+export interface ICalProperty {
+  name: string;
+  /** Parameter values, unquoted; names are uppercase */
+  params: Record<string, string[]>;
+  /** Raw value, still escaped for TEXT properties */
+  value: string;
+}
+
+export interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+export interface ICalDate {
+  date: Date;
+  /** VALUE=DATE: a whole day, at local midnight */
+  allDay: boolean;
+  /** TZID the value was given in */
+  timezone?: string;
+}
+
+/** A STANDARD or DAYLIGHT observance of a VTIMEZONE */
+export interface Observance {
+  /** Wall time of the first onset, as epoch milliseconds of its UTC reading */
+  start: number;
+  offsetFrom: number;
+  offsetTo: number;
+  rrule?: Record<string, string>;
+  rdates: number[];
+}
+
+/** VTIMEZONE definitions of a calendar object by TZID */
+export type TimeZoneTable = Map<string, Observance[]>;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Parse an iCalendar stream into its top-level components (normally one VCALENDAR)
+ */
+export function parseICalendar(text: string): ICalComponent[] {
+  const root: ICalComponent = { name: '#root', properties: [], components: [] };
+  const stack: ICalComponent[] = [root];
+
+  // Unfold: a line break followed by a space or tab continues the previous line
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  for (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    const property = parseContentLine(line);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { name: property.value.toUpperCase(), properties: [], components: [] };
+      stack[stack.length - 1].components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      // Tolerate mismatched END lines by closing up to the named component
+      const index = stack.map((component) => component.name).lastIndexOf(property.value.toUpperCase());
+      if (index > 0) {
+        stack.length = index;
+      }
+    } else {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  return root.components;
+}
+
+/**
+ * Parse every VEVENT in a calendar object. Recurrence overrides
+ * (RECURRENCE-ID) are returned as separate events with the master's UID.
+ * With a range, recurring events are instead expanded into their
+ * occurrences within it.
+ */
+export function parseEvents(text: string, calendarId: string, range?: DateRange): CalendarEvent[] {
+  const calendars = parseICalendar(text);
+  const events: CalendarEvent[] = [];
+
+  for (const calendar of calendars) {
+    const zones = parseTimeZones(calendar);
+    const parsed: Array<{ event: CalendarEvent; clock: WallClock }> = [];
+    for (const component of calendar.components.filter((c) => c.name === 'VEVENT')) {
+      try {
+        const event = toCalendarEvent(component, calendarId, zones);
+        if (event) {
+          parsed.push({ event, clock: dateClock(getProperty(component, 'DTSTART')!, zones) });
+        }
+      } catch (error) {
+        console.error('Skipping unparseable VEVENT:', error);
+      }
+    }
+
+    events.push(...(range ? expandEvents(parsed, range) : parsed.map(({ event }) => event)));
+  }
+
+  return events;
+}
+
+/**
+ * Busy periods of the VFREEBUSY components in a free/busy response (FBTYPE=FREE is skipped)
+ */
+export function parseFreeBusy(text: string, calendarId?: string): BusyPeriod[] {
+  const periods: BusyPeriod[] = [];
+  for (const calendar of parseICalendar(text)) {
+    for (const freeBusy of calendar.components.filter((component) => component.name === 'VFREEBUSY')) {
+      for (const property of getProperties(freeBusy, 'FREEBUSY')) {
+        const type = property.params.FBTYPE?.[0]?.toUpperCase() || 'BUSY';
+        if (type === 'FREE') {
+          continue;
+        }
+        for (const period of property.value.split(',').filter(Boolean)) {
+          // start/end or start/duration, in UTC
+          const [startValue, endValue] = period.trim().split('/');
+          const start = parseDateValue(startValue, {}, new Map()).date;
+          const end = /^[+-]?P/.test(endValue || '')
+            ? new Date(start.getTime() + parseDuration(endValue))
+            : parseDateValue(endValue || startValue, {}, new Map()).date;
+          periods.push({ start, end, type, calendarId });
+        }
+      }
+    }
+  }
+  return periods;
+}
+
+/**
+ * Replace each recurring event and its overrides with their occurrences in the range
+ */
+function expandEvents(parsed: Array<{ event: CalendarEvent; clock: WallClock }>, range: DateRange): CalendarEvent[] {
+  const series = new Map<string, Array<{ event: CalendarEvent; clock: WallClock }>>();
+  for (const entry of parsed) {
+    series.set(entry.event.id, [...(series.get(entry.event.id) || []), entry]);
+  }
+
+  const events: CalendarEvent[] = [];
+  for (const [uid, entries] of series) {
+    const master = entries.find(({ event }) => !event.recurrenceId);
+    const overrides = entries.filter(({ event }) => event.recurrenceId).map(({ event }) => event);
+    if (master && (master.event.rrule || master.event.rdates)) {
+      try {
+        events.push(...expandSeries(master.event, overrides, range, master.clock));
+        continue;
+      } catch (error) {
+        console.error(`Not expanding recurring event ${uid}:`, error);
+      }
+    }
+    // Not recurring, or only overrides were returned (e.g. an invitation to one occurrence)
+    if (master) {
+      events.push(master.event);
+    }
+    events.push(...overrides.map(toOccurrence));
+  }
+  return events;
+}
+
+/**
+ * The VTIMEZONE definitions of a VCALENDAR by TZID
+ */
+export function parseTimeZones(calendar: ICalComponent): TimeZoneTable {
+  const zones: TimeZoneTable = new Map();
+  for (const zone of calendar.components.filter((component) => component.name === 'VTIMEZONE')) {
+    const tzid = getProperty(zone, 'TZID')?.value;
+    if (tzid) {
+      zones.set(tzid, parseObservances(zone));
+    }
+  }
+  return zones;
+}
+
+/**
+ * The first property with this name
+ */
+export function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+/**
+ * All properties with this name
+ */
+export function getProperties(component: ICalComponent, name: string): ICalProperty[] {
+  return component.properties.filter((property) => property.name === name);
+}
+
+/**
+ * Decode a TEXT value: \n, \, \; and \\ escapes
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Split a multi-valued TEXT property (CATEGORIES, RESOURCES) on unescaped commas
+ */
+export function splitText(value: string): string[] {
+  return value.split(/(?<!\\),/).map(unescapeText).map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M, P1D, -PT15M) into milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match || value.trim() === 'P' || value.trim().endsWith('T')) {
+    throw new Error(`Invalid iCalendar duration: ${value}`);
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((parseInt(weeks || '0', 10) * 7 + parseInt(days || '0', 10)) * 86400
+    + parseInt(hours || '0', 10) * 3600
+    + parseInt(minutes || '0', 10) * 60
+    + parseInt(seconds || '0', 10)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Parse a DATE or DATE-TIME property value, resolving its TZID
+ */
+export function parseDateProperty(property: ICalProperty, zones: TimeZoneTable = new Map()): ICalDate {
+  return parseDateValue(property.value, property.params, zones);
+}
+
+/**
+ * Parse every value of a multi-valued date property (EXDATE, RDATE). PERIOD values yield their start.
+ */
+export function parseDateList(property: ICalProperty, zones: TimeZoneTable = new Map()): ICalDate[] {
+  return property.value
+    .split(',')
+    .filter(Boolean)
+    .map((value) => parseDateValue(value.split('/')[0], property.params, zones));
+}
+
+function parseDateValue(value: string, params: Record<string, string[]>, zones: TimeZoneTable): ICalDate {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid iCalendar date: ${value}`);
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wall: WallTime = {
+    year: parseInt(year, 10),
+    month: parseInt(month, 10),
+    day: parseInt(day, 10),
+    hour: parseInt(hour || '0', 10),
+    minute: parseInt(minute || '0', 10),
+    second: parseInt(second || '0', 10),
+  };
+
+  if (hour === undefined || params.VALUE?.[0]?.toUpperCase() === 'DATE') {
+    return { date: new Date(wall.year, wall.month - 1, wall.day), allDay: true };
+  }
+  if (utc) {
+    return { date: new Date(wallTimeToEpoch(wall)), allDay: false };
+  }
+
+  const tzid = params.TZID?.[0];
+  if (!tzid) {
+    return {
+      date: new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second),
+      allDay: false,
+    };
+  }
+  return { date: resolveZonedTime(wall, tzid, zones), allDay: false, timezone: tzid };
+}
+
+/**
+ * The instant of a wall time in a TZID: the IANA zone if Intl knows it, else the VTIMEZONE definition
+ */
+function resolveZonedTime(wall: WallTime, tzid: string, zones: TimeZoneTable): Date {
+  const iana = ianaTimeZone(tzid);
+  if (iana) {
+    return fromWallTime(wall, iana);
+  }
+
+  const observances = zones.get(tzid);
+  if (!observances || observances.length === 0) {
+    console.error(`Unknown time zone ${tzid}; treating the time as local`);
+    return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  }
+
+  const local = wallTimeToEpoch(wall);
+  let latest: { onset: number; offset: number } | undefined;
+  for (const observance of observances) {
+    for (const onset of observanceOnsets(observance, wall.year)) {
+      if (onset <= local && (!latest || onset > latest.onset)) {
+        latest = { onset, offset: observance.offsetTo };
+      }
+    }
+  }
+
+  // Before the first onset, the earliest observance's starting offset applies
+  const offset = latest?.offset ?? [...observances].sort((a, b) => a.start - b.start)[0].offsetFrom;
+  return new Date(local - offset);
+}
+
+/**
+ * The wall clock a date property is given in: its TZID's, UTC, or local time
+ * for floating and all-day values
+ */
+export function dateClock(property: ICalProperty, zones: TimeZoneTable = new Map()): WallClock {
+  const value = property.value.trim();
+  if (!value.includes('T') || property.params.VALUE?.[0]?.toUpperCase() === 'DATE') {
+    return LOCAL_CLOCK;
+  }
+  if (value.endsWith('Z')) {
+    return UTC_CLOCK;
+  }
+
+  const tzid = property.params.TZID?.[0];
+  const iana = tzid && ianaTimeZone(tzid);
+  if (iana) {
+    return zoneClock(iana);
+  }
+  const observances = tzid && zones.get(tzid);
+  if (!tzid || !observances || observances.length === 0) {
+    return LOCAL_CLOCK;
+  }
+  return {
+    toWall: (date) => epochToWallTime(date.getTime() + observanceOffset(observances, date.getTime())),
+    fromWall: (wall) => resolveZonedTime(wall, tzid, zones),
+  };
+}
+
+/**
+ * The UTC offset a VTIMEZONE gives at an instant
+ */
+function observanceOffset(observances: Observance[], instant: number): number {
+  const year = new Date(instant).getUTCFullYear();
+  let latest: { onset: number; offset: number } | undefined;
+  for (const observance of observances) {
+    for (const onset of observanceOnsets(observance, year)) {
+      // Onsets are wall times in the offset that applied before them
+      const onsetInstant = onset - observance.offsetFrom;
+      if (onsetInstant <= instant && (!latest || onsetInstant > latest.onset)) {
+        latest = { onset: onsetInstant, offset: observance.offsetTo };
+      }
+    }
+  }
+  return latest?.offset ?? [...observances].sort((a, b) => a.start - b.start)[0].offsetFrom;
+}
+
+/**
+ * The IANA zone a TZID names, including prefixed forms such as /mozilla.org/20050126_1/Europe/Berlin
+ */
+function ianaTimeZone(tzid: string): string | undefined {
+  if (isValidTimeZone(tzid)) {
+    return tzid;
+  }
+  const suffix = tzid.match(/([A-Za-z_]+\/[A-Za-z0-9_+-]+(?:\/[A-Za-z0-9_+-]+)?)$/)?.[1];
+  return suffix && isValidTimeZone(suffix) ? suffix : undefined;
+}
+
+function parseObservances(zone: ICalComponent): Observance[] {
+  return zone.components
+    .filter((component) => component.name === 'STANDARD' || component.name === 'DAYLIGHT')
+    .flatMap((component) => {
+      const dtstart = getProperty(component, 'DTSTART')?.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})/);
+      const offsetTo = getProperty(component, 'TZOFFSETTO')?.value;
+      if (!dtstart || !offsetTo) {
+        return [];
+      }
+      const [, year, month, day, hour, minute, second] = dtstart.map(Number);
+      const rrule = getProperty(component, 'RRULE')?.value;
+      return [{
+        start: Date.UTC(year, month - 1, day, hour, minute, second),
+        offsetFrom: parseUtcOffset(getProperty(component, 'TZOFFSETFROM')?.value || offsetTo),
+        offsetTo: parseUtcOffset(offsetTo),
+        rrule: rrule ? parseRuleParts(rrule) : undefined,
+        rdates: getProperties(component, 'RDATE')
+          .flatMap((property) => property.value.split(','))
+          .map((value) => value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})/))
+          .filter((parts): parts is RegExpMatchArray => parts !== null)
+          .map(([, y, mo, d, h, mi, s]) => Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)),
+      }];
+    });
+}
+
+/**
+ * Onsets of an observance in a year and the year before, as wall-time epochs.
+ * Time zone rules are yearly, so only FREQ=YEARLY with BYMONTH/BYDAY/BYMONTHDAY is supported.
+ */
+function observanceOnsets(observance: Observance, year: number): number[] {
+  const onsets = [observance.start, ...observance.rdates];
+  const rule = observance.rrule;
+  if (rule?.FREQ === 'YEARLY') {
+    const start = epochToWallTime(observance.start);
+    const until = rule.UNTIL ? parseUntil(rule.UNTIL) : Infinity;
+    for (const y of [year - 1, year]) {
+      for (const month of rule.BYMONTH ? rule.BYMONTH.split(',').map(Number) : [start.month]) {
+        const day = yearlyRuleDay(y, month, rule, start.day);
+        if (day !== undefined) {
+          const onset = Date.UTC(y, month - 1, day, start.hour, start.minute, start.second);
+          if (onset >= observance.start && onset <= until) {
+            onsets.push(onset);
+          }
+        }
+      }
+    }
+  }
+  return onsets;
+}
+
+/**
+ * Day of the month a yearly time zone rule selects, e.g. BYDAY=-1SU (last Sunday)
+ */
+function yearlyRuleDay(year: number, month: number, rule: Record<string, string>, defaultDay: number): number | undefined {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const monthDays = rule.BYMONTHDAY?.split(',').map(Number).map((day) => (day < 0 ? daysInMonth + day + 1 : day));
+  const byDay = rule.BYDAY?.match(/^([+-]?\d+)?([A-Z]{2})$/);
+  if (!byDay) {
+    return monthDays?.[0] ?? defaultDay;
+  }
+
+  const weekday = WEEKDAYS.indexOf(byDay[2]);
+  const matches: number[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday && (!monthDays || monthDays.includes(day))) {
+      matches.push(day);
+    }
+  }
+  const ordinal = byDay[1] ? parseInt(byDay[1], 10) : 1;
+  return ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+}
+
+function parseUntil(value: string): number {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?/);
+  if (!match) {
+    return Infinity;
+  }
+  const [, y, mo, d, h, mi, s] = match;
+  return Date.UTC(+y, +mo - 1, +d, +(h || 23), +(mi || 59), +(s || 59));
+}
+
+/**
+ * Parse a UTC offset such as -0500 or +053000 into milliseconds
+ */
+function parseUtcOffset(value: string): number {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) {
+    throw new Error(`Invalid UTC offset: ${value}`);
+  }
+  const ms = (parseInt(match[2], 10) * 3600 + parseInt(match[3], 10) * 60 + parseInt(match[4] || '0', 10)) * 1000;
+  return match[1] === '-' ? -ms : ms;
+}
+
+function toCalendarEvent(component: ICalComponent, calendarId: string, zones: TimeZoneTable): CalendarEvent | null {
+  const uid = getProperty(component, 'UID')?.value.trim();
+  const dtstart = getProperty(component, 'DTSTART');
+  if (!uid || !dtstart) {
+    return null;
+  }
+
+  const start = parseDateProperty(dtstart, zones);
+  const dtend = getProperty(component, 'DTEND');
+  const duration = getProperty(component, 'DURATION');
+  let end: Date;
+  if (dtend) {
+    end = parseDateProperty(dtend, zones).date;
+  } else if (duration) {
+    end = new Date(start.date.getTime() + parseDuration(duration.value));
+  } else if (start.allDay) {
+    // An all-day event without an end lasts one day
+    end = new Date(start.date.getFullYear(), start.date.getMonth(), start.date.getDate() + 1);
+  } else {
+    end = start.date;
+  }
+
+  const text = (name: string) => {
+    const property = getProperty(component, name);
+    return property ? unescapeText(property.value) : undefined;
+  };
+  const date = (name: string) => {
+    const property = getProperty(component, name);
+    return property ? parseDateProperty(property, zones).date : undefined;
+  };
+  const dates = (name: string) => getProperties(component, name).flatMap((property) => parseDateList(property, zones).map((value) => value.date));
+
+  const organizer = getProperty(component, 'ORGANIZER');
+  const attendees = getProperties(component, 'ATTENDEE').map(toAttendee);
+  const categories = getProperties(component, 'CATEGORIES').flatMap((property) => splitText(property.value));
+  const rdates = dates('RDATE');
+  const exdates = dates('EXDATE');
+  const sequence = getProperty(component, 'SEQUENCE')?.value;
+
+  return {
+    id: uid,
+    summary: text('SUMMARY') ?? '(No title)',
+    description: text('DESCRIPTION'),
+    start: start.date,
+    end,
+    location: text('LOCATION'),
+    organizer: organizer ? toAddress(organizer) : undefined,
+    attendees: attendees.length > 0 ? attendees : undefined,
+    status: getProperty(component, 'STATUS')?.value.trim().toUpperCase() || 'CONFIRMED',
+    calendarId,
+    allDay: start.allDay || undefined,
+    timezone: start.timezone,
+    transparency: getProperty(component, 'TRANSP')?.value.trim().toUpperCase() || undefined,
+    rrule: getProperty(component, 'RRULE')?.value.trim(),
+    rdates: rdates.length > 0 ? rdates : undefined,
+    exdates: exdates.length > 0 ? exdates : undefined,
+    recurrenceId: date('RECURRENCE-ID'),
+    sequence: sequence !== undefined ? parseInt(sequence, 10) : undefined,
+    categories: categories.length > 0 ? categories : undefined,
+    created: date('CREATED'),
+    lastModified: date('LAST-MODIFIED'),
+  };
+}
+
+function toAddress(property: ICalProperty): EmailAddress {
+  return {
+    name: property.params.CN?.[0] || undefined,
+    address: property.value.trim().replace(/^mailto:/i, ''),
+  };
+}
+
+function toAttendee(property: ICalProperty): EventAttendee {
+  const param = (name: string) => property.params[name]?.[0]?.toUpperCase() || undefined;
+  return {
+    ...toAddress(property),
+    role: param('ROLE'),
+    partStat: param('PARTSTAT'),
+    rsvp: param('RSVP') ? param('RSVP') === 'TRUE' : undefined,
+    type: param('CUTYPE'),
+  };
+}
+
+/**
+ * Split a content line into name, parameters and value. Parameter values may
+ * be quoted and contain ':', ';' and ','; RFC 6868 ^n, ^' and ^^ are decoded.
+ */
+function parseContentLine(line: string): ICalProperty | undefined {
+  const nameMatch = line.match(/^[A-Za-z0-9-]+/);
+  if (!nameMatch) {
+    return undefined;
+  }
+
+  const params: Record<string, string[]> = {};
+  let index = nameMatch[0].length;
+  while (line[index] === ';') {
+    const eq = line.indexOf('=', index);
+    if (eq < 0) {
+      return undefined;
+    }
+    const paramName = line.slice(index + 1, eq).toUpperCase();
+    const values: string[] = [];
+    index = eq + 1;
+    for (;;) {
+      let value: string;
+      if (line[index] === '"') {
+        const close = line.indexOf('"', index + 1);
+        if (close < 0) {
+          return undefined;
+        }
+        value = line.slice(index + 1, close);
+        index = close + 1;
+      } else {
+        const end = line.slice(index).search(/[;:,]/);
+        value = end < 0 ? line.slice(index) : line.slice(index, index + end);
+        index = end < 0 ? line.length : index + end;
+      }
+      values.push(value.replace(/\^(n|'|\^)/g, (_match, char: string) => (char === 'n' ? '\n' : char === "'" ? '"' : '^')));
+      if (line[index] !== ',') {
+        break;
+      }
+      index++;
+    }
+    params[paramName] = values;
+  }
+
+  if (line[index] !== ':') {
+    return undefined;
+  }
+  return { name: nameMatch[0].toUpperCase(), params, value: line.slice(index + 1) };
+}
@@ -11,269 +11,206 @@
 import Imap from 'imap';
 // @ts-ignore - mailparser types may not be available
 import { simpleParser } from 'mailparser';
-import type { Email, FetchEmailsParams, SearchEmailsParams } from './types.js';
+import {
+  decodeCharset,
+  decodeTransferEncoding,
+  estimateDecodedSize,
+  flattenStructure,
+  isAttachmentPart,
+  type MimePart,
+} from './mime.js';
+import { makeSnippet } from './body.js';
+import { checkUidValidity, decodeCursor, encodeCursor, type CursorPosition } from './cursor.js';
+import {
+  compileSearchQuery,
+  isLocallyEvaluable,
+  matchesCriteria,
+  orCriteria,
+  type CompiledSearch,
+} from './search-query.js';
+import { flattenThread, normalizeSubject, threadMessages } from './threading.js';
+import type {
+  Attachment,
+  AttachmentSelector,
+  Email,
+  EmailAddress,
+  EmailPage,
+  FetchEmailsParams,
+  GetEmailOptions,
+  GetThreadOptions,
+  MailboxInfo,
+  MailboxStatus,
+  MessageTransferResult,
+  SearchEmailsParams,
+  SetFlagsParams,
+  SyncOptions,
+  SyncResult,
+  ThreadMessage,
+} from './types.js';
+import { ImapConnectionPool } from './imap-connection.js';
+import type { CachedFolder, MailCache } from './mail-cache.js';
 import type { YahooOAuth2 } from './oauth2.js';
 
 export class YahooIMAPClient {
-  private imap: Imap | null = null;
-  private oauth2: YahooOAuth2;
-  private emailAddress: string;
-  private imapHost: string;
-  private imapPort: number;
-  private connected: boolean = false;
-
-  constructor(oauth2: YahooOAuth2, emailAddress: string, imapHost: string, imapPort: number) {
-    this.oauth2 = oauth2;
-    this.emailAddress = emailAddress;
-    this.imapHost = imapHost;
-    this.imapPort = imapPort;
+  private pool: ImapConnectionPool;
+  private cache?: MailCache;
+
+  constructor(
+    oauth2: YahooOAuth2,
+    emailAddress: string,
+    imapHost: string,
+    imapPort: number,
+    poolSize: number = 1,
+    cache?: MailCache
+  ) {
+    this.pool = new ImapConnectionPool(oauth2, {
+      user: emailAddress,
+      host: imapHost,
+      port: imapPort,
+    }, poolSize);
+    this.cache = cache;
   }
 
   /**
-   * Connect to IMAP server with OAuth2
+   * Connect to IMAP server with OAuth2. Commands connect on demand, so this
+   * is only needed to check the credentials up front.
    */
   async connect(): Promise<void> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        const accessToken = await this.oauth2.getAccessToken();
-        
-        // Create IMAP connection with OAuth2 token
-        this.imap = new Imap({
-          user: this.emailAddress,
-          xoauth2: accessToken, // OAuth2 token for XOAUTH2 authentication
-          host: this.imapHost,
-          port: this.imapPort,
-          tls: true,
-          tlsOptions: { rejectUnauthorized: false },
-        } as any); // Type assertion needed for xoauth2
-
-        if (!this.imap) {
-          reject(new Error('Failed to create IMAP connection'));
-          return;
-        }
-
-        this.imap.once('ready', () => {
-          this.connected = true;
-          resolve();
-        });
-
-        this.imap.once('error', (err: Error) => {
-          this.connected = false;
-          reject(err);
-        });
-
-        this.imap.connect();
-      } catch (error) {
-        reject(error);
-      }
-    });
+    await this.pool.run(undefined, async () => undefined);
   }
 
   /**
    * Disconnect from IMAP server
    */
   async disconnect(): Promise<void> {
-    return new Promise((resolve) => {
-      if (this.imap && this.connected) {
-        this.imap.end();
-        this.imap.once('end', () => {
-          this.connected = false;
-          this.imap = null;
-          resolve();
-        });
-      } else {
-        resolve();
-      }
-    });
+    await this.pool.disconnect();
   }
 
   /**
    * Check if connected
    */
   isConnected(): boolean {
-    return this.connected && this.imap !== null;
+    return this.pool.isConnected();
   }
 
   /**
    * Fetch emails from a folder
    */
   async fetchEmails(params: FetchEmailsParams = {}): Promise<Email[]> {
-    if (!this.connected || !this.imap) {
-      await this.connect();
-    }
-
-    if (!this.imap) {
-      throw new Error('IMAP connection not available');
-    }
+    return (await this.fetchEmailPage(params)).emails;
+  }
 
+  /**
+   * Fetch a page of emails from a folder, most recent first, with a cursor for the next page
+   */
+  async fetchEmailPage(params: FetchEmailsParams = {}): Promise<EmailPage> {
     const {
-      folder = 'INBOX',
       limit = 50,
       offset = 0,
       since,
       unreadOnly = false,
+      markSeen = false,
     } = params;
 
-    return new Promise((resolve, reject) => {
-      if (!this.imap) {
-        reject(new Error('IMAP connection not available'));
-        return;
-      }
-
-      if (!this.imap) {
-        reject(new Error('IMAP connection not available'));
-        return;
-      }
-
-      this.imap.openBox(folder, false, (err, box) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-
-        if (!this.imap) {
-          reject(new Error('IMAP connection lost'));
-          return;
-        }
-
-        // Build search criteria
-        const criteria: any[] = [];
-        if (unreadOnly) {
-          criteria.push(['UNSEEN']);
-        }
-        if (since) {
-          criteria.push(['SINCE', since]);
-        }
-
-        // Search for emails
-        this.imap.search(criteria.length > 0 ? criteria : ['ALL'], (err, results) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-
-          if (results.length === 0) {
-            resolve([]);
-            return;
-          }
-
-          // Apply pagination
-          const start = Math.max(0, results.length - offset - limit);
-          const end = results.length - offset;
-          const uids = results.slice(Math.max(0, start), end).reverse(); // Most recent first
-
-          if (!this.imap) {
-            reject(new Error('IMAP connection lost'));
-            return;
-          }
-
-          // Fetch email data
-          const fetch = this.imap.fetch(uids, {
-            bodies: '',
-            struct: true,
-          });
-
-          const emails: Email[] = [];
-
-          fetch.on('message', (msg, seqno) => {
-            let emailBuffer = Buffer.alloc(0);
-
-            msg.on('body', (stream) => {
-              stream.on('data', (chunk: Buffer) => {
-                emailBuffer = Buffer.concat([emailBuffer, chunk]);
-              });
-            });
-
-            msg.once('attributes', async (attrs) => {
-              try {
-                const parsed = await simpleParser(emailBuffer);
-                
-                emails.push({
-                  id: attrs.uid.toString(),
-                  uid: attrs.uid,
-                  messageId: parsed.messageId || '',
-                  subject: parsed.subject || '(No Subject)',
-                  from: parsed.from?.value || [],
-                  to: parsed.to?.value || [],
-                  cc: parsed.cc?.value,
-                  bcc: parsed.bcc?.value,
-                  date: parsed.date || new Date(),
-                  text: parsed.text,
-                  html: parsed.html,
-                  attachments: parsed.attachments?.map((att) => ({
-                    filename: att.filename || 'attachment',
-                    contentType: att.contentType,
-                    size: att.size || 0,
-                    cid: att.cid,
-                  })),
-                  flags: attrs.flags || [],
-                  folder,
-                });
-
-                // Resolve when all emails are processed
-                if (emails.length === uids.length) {
-                  resolve(emails);
-                }
-              } catch (parseErr) {
-                console.error('Error parsing email:', parseErr);
-                // Continue with other emails even if one fails
-                if (emails.length === uids.length - 1) {
-                  resolve(emails);
-                }
-              }
-            });
+    const position = params.cursor ? decodeCursor(params.cursor)[0] : undefined;
+    if (position && params.folder && params.folder !== position.folder) {
+      throw new Error(`The cursor is for folder "${position.folder}", not "${params.folder}"`);
+    }
+    const folder = position?.folder || params.folder || 'INBOX';
 
-            msg.once('end', () => {
-              // Message end
-            });
-          });
+    // Build search criteria
+    const criteria: any[] = [];
+    if (unreadOnly) {
+      criteria.push(['UNSEEN']);
+    }
+    if (since) {
+      criteria.push(['SINCE', since]);
+    }
 
-          fetch.once('error', (err) => {
-            reject(err);
-          });
-        });
-      });
-    });
+    const page = await this.searchFolder(folder, criteria, { limit, offset, position, markSeen });
+    return {
+      emails: page.emails,
+      nextCursor: encodeCursor(page.next ? [page.next] : []),
+    };
   }
 
   /**
    * Get a specific email by UID
    */
-  async getEmail(emailId: string, folder: string = 'INBOX'): Promise<Email> {
-    if (!this.connected || !this.imap) {
-      await this.connect();
+  async getEmail(emailId: string, folder: string = 'INBOX', options: GetEmailOptions = {}): Promise<Email> {
+    // Attachment content and \Seen changes always go to the server
+    if (!this.cache || options.markSeen || options.includeAttachmentContent) {
+      const { email } = await this.fetchEmail(emailId, folder, options);
+      if (options.markSeen) {
+        this.cache?.invalidate(folder);
+      }
+      return email;
     }
 
-    if (!this.imap) {
-      throw new Error('IMAP connection not available');
+    const uid = parseInt(emailId, 10);
+    const state = this.cache.loadFolder(folder);
+    const fresh = state !== undefined && this.cache.isFresh(state);
+    // A stale folder isn't synced for one message; its flags are read directly instead
+    const { uidValidity, flags } = fresh
+      ? { uidValidity: state.uidValidity, flags: state.messages.find((message) => message.uid === uid)?.flags }
+      : await this.fetchMessageFlags(uid, folder);
+    const cached = this.cache.getBody(folder, uidValidity, uid);
+    if (cached && (fresh || flags)) {
+      // Flags in the body cache date from when it was saved; the summary or server flags are current
+      return { ...cached, flags: flags || cached.flags };
     }
 
-    return new Promise((resolve, reject) => {
-      if (!this.imap) {
-        reject(new Error('IMAP connection not available'));
-        return;
-      }
+    const fetched = await this.fetchEmail(emailId, folder, options);
+    this.cache.saveBody(folder, fetched.uidValidity, fetched.email);
+    return fetched.email;
+  }
 
-      this.imap.openBox(folder, false, (err) => {
+  /**
+   * The current flags of one message (undefined if it is gone) and the folder's UIDVALIDITY
+   */
+  private async fetchMessageFlags(uid: number, folder: string): Promise<{ uidValidity: number; flags?: string[] }> {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      imap.openBox(folder, true, (err, box) => {
         if (err) {
           reject(err);
           return;
         }
+        fetchFlags(imap, uid.toString())
+          .then((flags) => resolve({ uidValidity: box.uidvalidity, flags: flags.get(uid) }))
+          .catch(reject);
+      });
+    }));
+  }
 
-        if (!this.imap) {
-          reject(new Error('IMAP connection lost'));
+  /**
+   * Download and parse a message, reporting the folder's UIDVALIDITY with it
+   */
+  private async fetchEmail(
+    emailId: string,
+    folder: string,
+    options: GetEmailOptions
+  ): Promise<{ email: Email; uidValidity: number }> {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      const markSeen = options.markSeen ?? false;
+
+      imap.openBox(folder, !markSeen, (err, box) => {
+        if (err) {
+          reject(err);
           return;
         }
 
         const uid = parseInt(emailId, 10);
-        const fetch = this.imap.fetch([uid], {
+        const fetch = imap.fetch([uid], {
           bodies: '',
           struct: true,
+          markSeen,
         });
 
         let emailBuffer = Buffer.alloc(0);
+        let found = false;
 
         fetch.on('message', async (msg) => {
+          found = true;
           msg.on('body', (stream) => {
             stream.on('data', (chunk: Buffer) => {
               emailBuffer = Buffer.concat([emailBuffer, chunk]);
@@ -284,7 +221,7 @@ export class YahooIMAPClient {
             try {
               const parsed = await simpleParser(emailBuffer);
               
-              resolve({
+              const email: Email = {
                 id: attrs.uid.toString(),
                 uid: attrs.uid,
                 messageId: parsed.messageId || '',
@@ -293,18 +230,23 @@ export class YahooIMAPClient {
                 to: parsed.to?.value || [],
                 cc: parsed.cc?.value,
                 bcc: parsed.bcc?.value,
+                replyTo: parsed.replyTo?.value,
                 date: parsed.date || new Date(),
+                inReplyTo: parsed.inReplyTo,
+                references: typeof parsed.references === 'string' ? [parsed.references] : parsed.references,
                 text: parsed.text,
-                html: parsed.html,
+                html: parsed.html || undefined,
                 attachments: parsed.attachments?.map((att: any) => ({
                   filename: att.filename || 'attachment',
                   contentType: att.contentType,
                   size: att.size || 0,
                   cid: att.cid,
+                  ...(options.includeAttachmentContent && { content: att.content }),
                 })),
                 flags: attrs.flags || [],
                 folder,
-              });
+              };
+              resolve({ email, uidValidity: box.uidvalidity });
             } catch (parseErr) {
               reject(new Error(`Failed to parse email: ${parseErr}`));
             }
@@ -314,196 +256,1739 @@ export class YahooIMAPClient {
         fetch.once('error', (err) => {
           reject(err);
         });
+
+        fetch.once('end', () => {
+          if (!found) {
+            reject(new Error(`Email ${emailId} not found in ${folder}`));
+          }
+        });
       });
-    });
+    }));
   }
 
   /**
-   * Search emails by criteria
+   * Get the raw RFC 822 source of an email
    */
-  async searchEmails(params: SearchEmailsParams): Promise<Email[]> {
-    if (!this.connected || !this.imap) {
-      await this.connect();
-    }
+  async getRawMessage(emailId: string, folder: string = 'INBOX'): Promise<Buffer> {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      imap.openBox(folder, true, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
 
-    if (!this.imap) {
-      throw new Error('IMAP connection not available');
-    }
+        const chunks: Buffer[] = [];
+        let found = false;
+        const fetch = imap.fetch([parseInt(emailId, 10)], { bodies: '' });
+
+        fetch.on('message', (msg) => {
+          found = true;
+          msg.on('body', (stream) => {
+            stream.on('data', (chunk: Buffer) => {
+              chunks.push(chunk);
+            });
+          });
+        });
+
+        fetch.once('error', (fetchErr) => {
+          reject(fetchErr);
+        });
+
+        fetch.once('end', () => {
+          if (!found) {
+            reject(new Error(`Email ${emailId} not found in ${folder}`));
+            return;
+          }
+          resolve(Buffer.concat(chunks));
+        });
+      });
+    }));
+  }
+
+  /**
+   * Search emails by criteria. query uses the Gmail-style syntax of compileSearchQuery;
+   * from, subject and dateRange are ANDed with it.
+   *
+   * With folders or allFolders, every folder is searched and the results are
+   * merged newest first, each tagged with its folder; limit applies to the total.
+   */
+  async searchEmails(params: SearchEmailsParams): Promise<Email[]> {
+    return (await this.searchEmailPage(params)).emails;
+  }
 
+  /**
+   * Search emails, returning a page of results with a cursor for the next page.
+   * A cursor keeps the folders of the first call.
+   */
+  async searchEmailPage(params: SearchEmailsParams): Promise<EmailPage> {
     const {
       query,
-      folder = 'INBOX',
       from,
       subject,
       dateRange,
       limit = 50,
     } = params;
 
-    return new Promise((resolve, reject) => {
-      if (!this.imap) {
-        reject(new Error('IMAP connection not available'));
-        return;
+    // Parse before connecting so syntax errors are reported straight away
+    const compiled = compileSearchQuery(query || '');
+    const positions = params.cursor ? decodeCursor(params.cursor) : undefined;
+
+    // Build IMAP search criteria
+    const criteria: any[] = [...compiled.criteria];
+
+    if (from) {
+      criteria.push(['FROM', from]);
+    }
+
+    if (subject) {
+      criteria.push(['SUBJECT', subject]);
+    }
+
+    if (dateRange) {
+      if (dateRange.start) {
+        criteria.push(['SINCE', dateRange.start]);
+      }
+      if (dateRange.end) {
+        criteria.push(['BEFORE', dateRange.end]);
+      }
+    }
+
+    const folders = positions ? positions.map((position) => position.folder) : await this.resolveSearchFolders(params);
+    const searches = folders.map((name, index) => ({
+      folder: name,
+      options: { limit, compiled, position: positions?.[index] },
+    }));
+
+    if (searches.length === 1) {
+      const page = await this.searchFolder(searches[0].folder, criteria, searches[0].options);
+      return { emails: page.emails, nextCursor: encodeCursor(page.next ? [page.next] : []) };
+    }
+
+    // Each folder contributes at most limit results; the newest limit across all of them win
+    const pages = await Promise.all(searches.map(({ folder, options }) =>
+      this.searchFolder(folder, criteria, options).catch((error) => {
+        if (options.position) {
+          // Skipping the folder would silently drop it from later pages
+          throw error;
+        }
+        console.error(`Search failed in ${folder}:`, error);
+        return undefined;
+      })
+    ));
+
+    // Merge newest first, always taking from the front of each folder's page so that
+    // what a folder contributes is a run of UIDs and its next page can continue below it
+    const available = pages.filter((page): page is FolderPage => page !== undefined);
+    const taken = available.map(() => 0);
+    const emails: Email[] = [];
+    while (emails.length < limit) {
+      let best = -1;
+      available.forEach((page, index) => {
+        const candidate = page.emails[taken[index]];
+        if (candidate && (best < 0 || candidate.date > available[best].emails[taken[best]].date)) {
+          best = index;
+        }
+      });
+      if (best < 0) {
+        break;
+      }
+      emails.push(available[best].emails[taken[best]++]);
+    }
+
+    const next: CursorPosition[] = [];
+    available.forEach((page, index) => {
+      if (taken[index] < page.emails.length) {
+        const lastUid = taken[index] > 0 ? page.emails[taken[index] - 1].uid : page.start.lastUid;
+        next.push({ ...page.start, lastUid });
+      } else if (page.next) {
+        next.push(page.next);
       }
+    });
+
+    return { emails, nextCursor: encodeCursor(next) };
+  }
+
+  /**
+   * Folders a search runs over: the explicit folders list, every folder for
+   * allFolders (or an empty list) minus Trash and Spam unless requested, else folder
+   */
+  private async resolveSearchFolders(params: SearchEmailsParams): Promise<string[]> {
+    const { folder = 'INBOX', folders, allFolders, includeTrash = false, includeSpam = false } = params;
+
+    if (folders && folders.length > 0) {
+      return [...new Set(folders)];
+    }
+    if (!allFolders && !folders) {
+      return [folder];
+    }
+
+    const mailboxes = await this.listFolders();
+    return mailboxes
+      .filter((mailbox) => mailbox.selectable)
+      .filter((mailbox) => includeTrash || !isSpecialFolder(mailbox, '\\trash', TRASH_NAMES))
+      .filter((mailbox) => includeSpam || !isSpecialFolder(mailbox, '\\junk', SPAM_NAMES))
+      .map((mailbox) => mailbox.name);
+  }
+
+  /**
+   * Search a single folder, newest first. Continues below options.position
+   * when given, after checking the folder's UIDVALIDITY.
+   */
+  private async searchFolder(folder: string, criteria: any[], options: FolderSearchOptions): Promise<FolderPage> {
+    const local = this.cache && !options.markSeen
+      && isLocallyEvaluable([...criteria, ...(options.compiled?.lookups || [])])
+      ? await this.searchCache(folder, criteria, options)
+      : undefined;
+    if (local) {
+      return local;
+    }
 
-      this.imap.openBox(folder, false, (err) => {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      // Open read-only (EXAMINE) unless the caller wants messages marked as read
+      imap.openBox(folder, !options.markSeen, (err, box) => {
         if (err) {
           reject(err);
           return;
         }
 
-        if (!this.imap) {
-          reject(new Error('IMAP connection lost'));
-          return;
+        if (options.position) {
+          try {
+            checkUidValidity(options.position, box.uidvalidity);
+          } catch (error) {
+            reject(error);
+            return;
+          }
         }
 
-        // Build IMAP search criteria
-        const criteria: any[] = [];
+        this.runSearch(imap, folder, box, criteria, options).then(resolve, reject);
+      });
+    }));
+  }
 
-        if (query) {
-          // Search in body and subject
-          criteria.push(['OR', ['BODY', query], ['SUBJECT', query]]);
-        }
+  /**
+   * Answer a search from the local cache, syncing it first if stale. Returns
+   * undefined when the page may need messages older than the cache holds.
+   */
+  private async searchCache(
+    folder: string,
+    criteria: any[],
+    options: FolderSearchOptions
+  ): Promise<FolderPage | undefined> {
+    const { limit, offset = 0, position, compiled } = options;
+    const state = await this.freshFolder(folder);
+    if (position) {
+      checkUidValidity(position, state.uidValidity);
+    }
 
-        if (from) {
-          criteria.push(['FROM', from]);
-        }
+    const start: CursorPosition = position || { folder, uidValidity: state.uidValidity, lastUid: state.uidNext };
+    const lookupResults = (compiled?.lookups || []).map((lookup) => new Set(
+      state.messages.filter((message) => matchesCriteria([lookup], message)).map((message) => message.uid)
+    ));
 
-        if (subject) {
-          criteria.push(['SUBJECT', subject]);
-        }
+    const matches = state.messages
+      .filter((message) => message.uid < start.lastUid && matchesCriteria(criteria, message))
+      .filter((message) => !compiled?.filter || compiled.filter(message, lookupResults))
+      .slice(position ? 0 : offset);
 
-        if (dateRange) {
-          if (dateRange.start) {
-            criteria.push(['SINCE', dateRange.start]);
-          }
-          if (dateRange.end) {
-            criteria.push(['BEFORE', dateRange.end]);
-          }
-        }
+    if (matches.length <= limit && state.oldestUid > 1) {
+      return undefined;
+    }
 
-        // Search
-        this.imap.search(criteria.length > 0 ? criteria : ['ALL'], (err, results) => {
-          if (err) {
-            reject(err);
-            return;
-          }
+    const emails = matches.slice(0, limit);
+    return {
+      folder,
+      emails,
+      start,
+      next: matches.length > limit ? { ...start, lastUid: emails[emails.length - 1].uid } : undefined,
+    };
+  }
 
-          if (results.length === 0) {
-            resolve([]);
-            return;
-          }
+  /**
+   * Search the folder selected on imap, newest first. Clauses IMAP can't evaluate
+   * are checked on the fetched summaries, in batches until limit matches are found.
+   */
+  private async runSearch(
+    imap: Imap,
+    folder: string,
+    box: Imap.Box,
+    criteria: any[],
+    options: FolderSearchOptions
+  ): Promise<FolderPage> {
+    const { limit, offset = 0, position, markSeen = false, compiled } = options;
+
+    // Pages end at UIDs that existed on the first page, so mail arriving later doesn't shift them
+    const start: CursorPosition = position || { folder, uidValidity: box.uidvalidity, lastUid: box.uidnext || MAX_UID };
+    const pageOf = (emails: Email[], hasMore: boolean): FolderPage => ({
+      folder,
+      emails,
+      start,
+      next: hasMore && emails.length > 0
+        ? { ...start, lastUid: emails[emails.length - 1].uid }
+        : undefined,
+    });
 
-          // Apply limit and get most recent first
-          const uids = results.slice(-limit).reverse();
+    if (start.lastUid <= 1) {
+      return pageOf([], false);
+    }
 
-          if (!this.imap) {
-            reject(new Error('IMAP connection lost'));
-            return;
-          }
+    const results = await searchSelected(imap, [...criteria, ['UID', `1:${start.lastUid - 1}`]]);
+    // "1:n" also matches the highest UID when it is above n
+    const uids = results.filter((uid) => uid < start.lastUid).sort((a, b) => b - a).slice(position ? 0 : offset);
 
-          const fetch = this.imap.fetch(uids, {
-            bodies: '',
-            struct: true,
-          });
+    if (!compiled?.filter) {
+      const emails = await this.fetchSummaries(imap, uids.slice(0, limit), folder, markSeen);
+      return pageOf(emails, uids.length > limit);
+    }
 
-          const emails: Email[] = [];
+    const lookupResults: Set<number>[] = [];
+    for (const lookup of compiled.lookups) {
+      lookupResults.push(new Set(await searchSelected(imap, [lookup])));
+    }
 
-          fetch.on('message', (msg) => {
-            let emailBuffer = Buffer.alloc(0);
+    const matches: Email[] = [];
+    for (let i = 0; i < uids.length && matches.length < limit; i += SEARCH_FILTER_BATCH) {
+      const batch = uids.slice(i, i + SEARCH_FILTER_BATCH);
+      matches.push(...await this.fetchSummaries(imap, batch, folder, markSeen, (email) => compiled.filter!(email, lookupResults)));
+    }
 
-            msg.on('body', (stream) => {
-              stream.on('data', (chunk: Buffer) => {
-                emailBuffer = Buffer.concat([emailBuffer, chunk]);
-              });
-            });
+    const page = matches.slice(0, limit);
+    return pageOf(page, page.length === limit && uids[uids.length - 1] < page[page.length - 1].uid);
+  }
 
-            msg.once('attributes', async (attrs) => {
-              try {
-                const parsed = await simpleParser(emailBuffer);
-                
-                emails.push({
-                  id: attrs.uid.toString(),
-                  uid: attrs.uid,
-                  messageId: parsed.messageId || '',
-                  subject: parsed.subject || '(No Subject)',
-                  from: parsed.from?.value || [],
-                  to: parsed.to?.value || [],
-                  cc: parsed.cc?.value,
-                  bcc: parsed.bcc?.value,
-                  date: parsed.date || new Date(),
-                  text: parsed.text,
-                  html: parsed.html,
-                  attachments: parsed.attachments?.map((att) => ({
-                    filename: att.filename || 'attachment',
-                    contentType: att.contentType,
-                    size: att.size || 0,
-                    cid: att.cid,
-                  })),
-                  flags: attrs.flags || [],
-                  folder,
-                });
-
-                if (emails.length === uids.length) {
-                  resolve(emails);
-                }
-              } catch (parseErr) {
-                console.error('Error parsing email:', parseErr);
-                if (emails.length === uids.length - 1) {
-                  resolve(emails);
-                }
-              }
-            });
-          });
+  /**
+   * Fetch list entries (envelope, flags, size, snippet) for specific messages
+   */
+  async getSummaries(uids: number[], folder: string = 'INBOX'): Promise<Email[]> {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      imap.openBox(folder, true, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
 
-          fetch.once('error', (err) => {
-            reject(err);
-          });
-        });
+        this.fetchSummaries(imap, uids, folder).then(resolve, reject);
       });
-    });
+    }));
   }
 
   /**
-   * List available mailboxes/folders
+   * Bring the local cache of a folder up to date. The first sync (or any sync
+   * with full, or after UIDVALIDITY changed) fetches the newest messages up
+   * to the cache size; later syncs fetch only messages above the cached
+   * UIDNEXT, flag changes since the cached HIGHESTMODSEQ (CONDSTORE) or all
+   * flags otherwise, and drop expunged UIDs.
+   *
+   * With bodies, messages up to SYNC_BODY_MAX_SIZE whose parsed body is not
+   * cached yet are downloaded too, so they can be read and searched offline.
    */
-  async listMailboxes(): Promise<string[]> {
-    if (!this.connected || !this.imap) {
-      await this.connect();
-    }
-
-    if (!this.imap) {
-      throw new Error('IMAP connection not available');
+  async syncFolder(folder: string = 'INBOX', options: SyncOptions = {}): Promise<SyncResult> {
+    const { full = false, bodies = false } = options;
+    const cache = this.cache;
+    if (!cache) {
+      throw new Error('The local cache is disabled (YAHOO_CACHE=false)');
     }
 
-    return new Promise((resolve, reject) => {
-      if (!this.imap) {
-        reject(new Error('IMAP connection not available'));
-        return;
-      }
-
-      this.imap.getBoxes((err, boxes) => {
+    const result = await this.pool.run(folder, (imap) => new Promise<SyncResult>((resolve, reject) => {
+      imap.openBox(folder, true, (err, box) => {
         if (err) {
           reject(err);
           return;
         }
 
-        const mailboxList: string[] = [];
+        const cached = full ? undefined : cache.loadFolder(folder);
+        const sync = cached && cached.uidValidity === box.uidvalidity
+          ? this.runIncrementalSync(imap, box, cached)
+          : this.runFullSync(imap, folder, box);
+        sync.then(resolve, reject);
+      });
+    }));
+
+    if (bodies) {
+      const state = cache.loadFolder(folder)!;
+      const missing = state.messages.filter((message) =>
+        (message.size || 0) <= SYNC_BODY_MAX_SIZE && !cache.hasBody(folder, state.uidValidity, message.uid)
+      );
+      for (const message of missing) {
+        const { email, uidValidity } = await this.fetchEmail(message.id, folder, {});
+        cache.saveBody(folder, uidValidity, email);
+      }
+      result.bodies = missing.length;
+    }
 
-        const extractBoxes = (boxList: any, prefix: string = '') => {
-          for (const [name, boxValue] of Object.entries(boxList)) {
-            const box = boxValue as { delimiter: string; children?: any };
-            const fullName = prefix ? `${prefix}${box.delimiter}${name}` : name;
-            mailboxList.push(fullName);
-            if (box.children) {
-              extractBoxes(box.children, fullName);
-            }
+    return result;
+  }
+
+  /**
+   * The cached state of a folder, synced first if it is missing or stale
+   */
+  private async freshFolder(folder: string): Promise<CachedFolder> {
+    const state = this.cache!.loadFolder(folder);
+    if (state && this.cache!.isFresh(state)) {
+      return state;
+    }
+    await this.syncFolder(folder);
+    return this.cache!.loadFolder(folder)!;
+  }
+
+  private async runFullSync(imap: Imap, folder: string, box: Imap.Box): Promise<SyncResult> {
+    const cache = this.cache!;
+    const all = box.messages.total > 0 ? await searchSelected(imap, ['ALL']) : [];
+    const uids = all.sort((a, b) => b - a).slice(0, cache.maxMessages);
+
+    const messages: Email[] = [];
+    for (let i = 0; i < uids.length; i += SEARCH_FILTER_BATCH) {
+      messages.push(...await this.fetchSummaries(imap, uids.slice(i, i + SEARCH_FILTER_BATCH), folder));
+    }
+
+    const state: CachedFolder = {
+      folder,
+      uidValidity: box.uidvalidity,
+      uidNext: box.uidnext || (uids.length > 0 ? uids[0] + 1 : 1),
+      highestModSeq: (box as any).highestmodseq,
+      oldestUid: all.length > uids.length ? uids[uids.length - 1] : 1,
+      syncedAt: Date.now(),
+      messages,
+    };
+    cache.saveFolder(state);
+
+    return {
+      folder,
+      uidValidity: state.uidValidity,
+      method: 'full',
+      added: messages.length,
+      updated: 0,
+      removed: 0,
+      cached: messages.length,
+      syncedAt: new Date(state.syncedAt),
+    };
+  }
+
+  private async runIncrementalSync(imap: Imap, box: Imap.Box, cached: CachedFolder): Promise<SyncResult> {
+    const cache = this.cache!;
+    const folder = cached.folder;
+    const highestModSeq: string | undefined = (box as any).highestmodseq;
+    const empty = box.messages.total === 0;
+
+    // New mail: everything from the cached UIDNEXT up ("n:*" also matches the highest UID below n)
+    const newUids = empty
+      ? []
+      : (await searchSelected(imap, [['UID', `${cached.uidNext}:*`]])).filter((uid) => uid >= cached.uidNext);
+    const added: Email[] = [];
+    for (let i = 0; i < newUids.length; i += SEARCH_FILTER_BATCH) {
+      added.push(...await this.fetchSummaries(imap, newUids.slice(i, i + SEARCH_FILTER_BATCH), folder));
+    }
+
+    // Flag changes: only what changed since the cached MODSEQ when the server supports CONDSTORE
+    const useCondstore = highestModSeq !== undefined && cached.highestModSeq !== undefined;
+    let flags = new Map<number, string[]>();
+    if (!empty && cached.messages.length > 0 && (!useCondstore || highestModSeq !== cached.highestModSeq)) {
+      flags = await fetchFlags(imap, `${cached.oldestUid}:*`, useCondstore ? cached.highestModSeq : undefined);
+    }
+
+    // Expunged messages: without QRESYNC (which node-imap can't enable) compare the UID list
+    const present = new Set(empty ? [] : await searchSelected(imap, [['UID', `${cached.oldestUid}:*`]]));
+    const removed = cached.messages.filter((message) => !present.has(message.uid)).map((message) => message.uid);
+
+    let updated = 0;
+    const kept = cached.messages.filter((message) => present.has(message.uid)).map((message) => {
+      const current = flags.get(message.uid);
+      if (!current || sameFlags(current, message.flags || [])) {
+        return message;
+      }
+      updated++;
+      return { ...message, flags: current };
+    });
+
+    const messages = [...added, ...kept]
+      .sort((a, b) => b.uid - a.uid)
+      .slice(0, cache.maxMessages);
+    const dropped = kept.length + added.length - messages.length;
+
+    const state: CachedFolder = {
+      ...cached,
+      uidNext: Math.max(box.uidnext || 0, cached.uidNext, ...newUids.map((uid) => uid + 1)),
+      highestModSeq,
+      oldestUid: dropped > 0 ? messages[messages.length - 1].uid : cached.oldestUid,
+      syncedAt: Date.now(),
+      messages,
+    };
+    cache.removeBodies(folder, cached.uidValidity, removed);
+    cache.saveFolder(state);
+
+    return {
+      folder,
+      uidValidity: state.uidValidity,
+      method: useCondstore ? 'condstore' : 'flags',
+      added: added.length,
+      updated,
+      removed: removed.length,
+      cached: messages.length,
+      syncedAt: new Date(state.syncedAt),
+    };
+  }
+
+  /**
+   * Fetch list entries for messages in the folder currently selected on imap.
+   *
+   * Only ENVELOPE, FLAGS, RFC822.SIZE and BODYSTRUCTURE are fetched, plus the
+   * first text part of each message for the snippet, so attachments are never
+   * downloaded. Full parsing is left to getEmail. Results keep the order of uids.
+   * Messages rejected by filter are dropped before their snippets are fetched.
+   */
+  private async fetchSummaries(
+    imap: Imap,
+    uids: number[],
+    folder: string,
+    markSeen: boolean = false,
+    filter?: (email: Email) => boolean
+  ): Promise<Email[]> {
+    if (uids.length === 0) {
+      return [];
+    }
+
+    const summaries = await new Promise<Map<number, { attrs: any; header: string }>>((resolve, reject) => {
+      const results = new Map<number, { attrs: any; header: string }>();
+      const fetch = imap.fetch(uids, {
+        bodies: 'HEADER.FIELDS (REFERENCES)',
+        envelope: true,
+        struct: true,
+        size: true,
+        markSeen,
+      });
+
+      fetch.on('message', (msg) => {
+        let header = '';
+        let attributes: any;
+
+        msg.on('body', (stream) => {
+          stream.on('data', (chunk: Buffer) => {
+            header += chunk.toString('utf8');
+          });
+        });
+
+        msg.once('attributes', (attrs) => {
+          attributes = attrs;
+        });
+
+        msg.once('end', () => {
+          if (attributes?.uid !== undefined) {
+            results.set(attributes.uid, { attrs: attributes, header });
           }
-        };
+        });
+      });
 
-        extractBoxes(boxes);
-        resolve(mailboxList);
+      fetch.once('error', (fetchErr) => {
+        reject(fetchErr);
+      });
+
+      fetch.once('end', () => {
+        resolve(results);
       });
     });
-  }
-}
 
+    const emails = uids.filter((uid) => summaries.has(uid)).map((uid): Email => {
+      const { attrs, header } = summaries.get(uid)!;
+      const envelope = attrs.envelope || {};
+      const inReplyTo = parseMessageIds(envelope.inReplyTo || '')[0];
+      const references = parseMessageIds((Imap.parseHeader(header).references || []).join(' '));
+
+      return {
+        id: uid.toString(),
+        uid,
+        messageId: (envelope.messageId || '').trim(),
+        subject: envelope.subject || '(No Subject)',
+        from: toEmailAddresses(envelope.from),
+        to: toEmailAddresses(envelope.to),
+        cc: envelope.cc ? toEmailAddresses(envelope.cc) : undefined,
+        bcc: envelope.bcc ? toEmailAddresses(envelope.bcc) : undefined,
+        replyTo: envelope.replyTo ? toEmailAddresses(envelope.replyTo) : undefined,
+        date: envelope.date && !isNaN(envelope.date.getTime()) ? envelope.date : attrs.date || new Date(),
+        inReplyTo,
+        references: references.length > 0 ? references : undefined,
+        snippet: '',
+        size: attrs.size,
+        attachments: toAttachmentList(flattenStructure(attrs.struct)),
+        flags: attrs.flags || [],
+        folder,
+      };
+    });
+    const kept = filter ? emails.filter(filter) : emails;
+
+    // Pick the part each snippet comes from: the first text/plain body, else the first text/html.
+    // Parts too big to fetch for a snippet are skipped, leaving the snippet empty.
+    const textParts = new Map<number, MimePart>();
+    for (const email of kept) {
+      const bodies = flattenStructure(summaries.get(email.uid)!.attrs.struct)
+        .filter((part) => !isAttachmentPart(part) && part.size <= SNIPPET_PART_MAX_SIZE);
+      const part = bodies.find((p) => p.subtype === 'plain') || bodies.find((p) => p.subtype === 'html');
+      if (part) {
+        textParts.set(email.uid, part);
+      }
+    }
+    const snippets = await this.fetchSnippets(imap, textParts);
+
+    for (const email of kept) {
+      email.snippet = snippets.get(email.uid) || '';
+    }
+    return kept;
+  }
+
+  /**
+   * Fetch the text parts used for snippets, one FETCH per distinct part id.
+   *
+   * The whole part is fetched: node-imap cannot request partial (BODY[1]<0.N>)
+   * fetches. Callers only pass parts up to SNIPPET_PART_MAX_SIZE, and only the
+   * start of each one is decoded.
+   */
+  private async fetchSnippets(imap: Imap, parts: Map<number, MimePart>): Promise<Map<number, string>> {
+    const byPartId = new Map<string, number[]>();
+    for (const [uid, part] of parts) {
+      byPartId.set(part.partId, [...(byPartId.get(part.partId) || []), uid]);
+    }
+
+    const snippets = new Map<number, string>();
+    for (const [partId, uids] of byPartId) {
+      await new Promise<void>((resolve, reject) => {
+        const fetch = imap.fetch(uids, { bodies: partId });
+
+        fetch.on('message', (msg) => {
+          const chunks: Buffer[] = [];
+          let uid: number | undefined;
+
+          msg.on('body', (stream) => {
+            stream.on('data', (chunk: Buffer) => {
+              chunks.push(chunk);
+            });
+          });
+
+          msg.once('attributes', (attrs) => {
+            uid = attrs.uid;
+          });
+
+          msg.once('end', () => {
+            const part = uid !== undefined ? parts.get(uid) : undefined;
+            if (uid !== undefined && part) {
+              // HTML needs more than a snippet's worth of bytes to get past markup; 16 KB is plenty
+              const data = decodeTransferEncoding(Buffer.concat(chunks).subarray(0, 16384), part.encoding);
+              snippets.set(uid, makeSnippet(decodeCharset(data, part.charset), part.subtype === 'html'));
+            }
+          });
+        });
+
+        fetch.once('error', (fetchErr) => {
+          reject(fetchErr);
+        });
+
+        fetch.once('end', () => {
+          resolve();
+        });
+      });
+    }
+
+    return snippets;
+  }
+
+  /**
+   * List available mailboxes/folders
+   */
+  async listMailboxes(): Promise<string[]> {
+    const folders = await this.listFolders();
+    return folders.map((folder) => folder.name);
+  }
+
+  /**
+   * List folders with their delimiter, attributes and special use.
+   * With includeStatus, STATUS counts are fetched for every selectable folder.
+   */
+  async listFolders(includeStatus: boolean = false): Promise<MailboxInfo[]> {
+    const folders = await this.pool.run(undefined, (imap) => new Promise<MailboxInfo[]>((resolve, reject) => {
+      imap.getBoxes((err, boxes) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const mailboxList: MailboxInfo[] = [];
+
+        const extractBoxes = (boxList: Imap.MailBoxes, prefix: string = '') => {
+          for (const [name, box] of Object.entries(boxList)) {
+            const fullName = prefix ? `${prefix}${box.delimiter}${name}` : name;
+            const attributes = box.attribs || [];
+            const specialUse = attributes.find((attr) =>
+              SPECIAL_USE_ATTRIBUTES.includes(attr.toLowerCase())
+            );
+
+            mailboxList.push({
+              name: fullName,
+              displayName: name,
+              delimiter: box.delimiter,
+              attributes,
+              specialUse: specialUse
+                ? `\\${specialUse.charAt(1).toUpperCase()}${specialUse.slice(2).toLowerCase()}`
+                : undefined,
+              selectable: !attributes.some((attr) => /^\\(noselect|nonexistent)$/i.test(attr)),
+              parent: prefix || undefined,
+            });
+
+            if (box.children) {
+              extractBoxes(box.children, fullName);
+            }
+          }
+        };
+
+        extractBoxes(boxes);
+        resolve(mailboxList);
+      });
+    }));
+
+    if (includeStatus) {
+      for (const folder of folders) {
+        if (folder.selectable) {
+          folder.status = await this.getFolderStatus(folder.name);
+        }
+      }
+    }
+
+    return folders;
+  }
+
+  /**
+   * Get STATUS counts for a folder without selecting it
+   */
+  async getFolderStatus(folder: string): Promise<MailboxStatus> {
+    return this.pool.run(undefined, (imap) => new Promise((resolve, reject) => {
+      const onStatus = (err: Error | null, box?: Imap.Box) => {
+        if (err || !box) {
+          reject(err || new Error(`No status returned for ${folder}`));
+          return;
+        }
+        resolve({
+          messages: box.messages.total,
+          unseen: box.messages.unseen,
+          uidNext: box.uidnext,
+          uidValidity: box.uidvalidity,
+          ...(box.highestmodseq && { highestModseq: box.highestmodseq }),
+        });
+      };
+
+      try {
+        imap.status(folder, onStatus);
+      } catch {
+        // STATUS isn't allowed on the selected mailbox; unselect it and retry
+        imap.closeBox(false, (err) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          imap.status(folder, onStatus);
+        });
+      }
+    }));
+  }
+
+  /**
+   * Find the mailbox carrying a special-use attribute (e.g. \Sent),
+   * falling back to well-known names when the server doesn't advertise one
+   */
+  async findSpecialUseMailbox(attribute: string, fallbackNames: string[] = []): Promise<string | undefined> {
+    const folders = await this.listFolders();
+
+    const match = folders.find((folder) =>
+      folder.attributes.some((attr) => attr.toLowerCase() === attribute.toLowerCase())
+    );
+    if (match) {
+      return match.name;
+    }
+
+    return fallbackNames
+      .map((fallback) => folders.find((folder) => folder.name.toLowerCase() === fallback.toLowerCase()))
+      .find((folder) => folder !== undefined)?.name;
+  }
+
+  /**
+   * Create a folder. Nested folders are given as a parent plus a name, or
+   * as a full path using the server's hierarchy delimiter.
+   */
+  async createFolder(name: string, parent?: string): Promise<MailboxInfo> {
+    const delimiter = await this.getDelimiter();
+    const fullName = parent ? `${parent}${delimiter}${name}` : name;
+
+    await this.runMailboxCommand((imap, cb) => imap.addBox(fullName, cb));
+    // Yahoo only shows subscribed folders in its UI
+    await this.runMailboxCommand((imap, cb) => imap.subscribeBox(fullName, cb)).catch((err) => {
+      console.error(`Failed to subscribe to ${fullName}:`, err);
+    });
+
+    const created = (await this.listFolders()).find((folder) => folder.name === fullName);
+    if (!created) {
+      throw new Error(`Folder ${fullName} was not found after creating it`);
+    }
+    return created;
+  }
+
+  /**
+   * Rename (or re-parent) a folder
+   */
+  async renameFolder(folder: string, newName: string): Promise<MailboxInfo> {
+    if (folder.toUpperCase() === 'INBOX') {
+      throw new Error('INBOX cannot be renamed');
+    }
+
+    await this.runMailboxCommand((imap, cb) => imap.renameBox(folder, newName, cb));
+    this.cache?.clearFolder(folder);
+    await this.runMailboxCommand((imap, cb) => imap.subscribeBox(newName, cb)).catch((err) => {
+      console.error(`Failed to subscribe to ${newName}:`, err);
+    });
+
+    const renamed = (await this.listFolders()).find((info) => info.name === newName);
+    if (!renamed) {
+      throw new Error(`Folder ${newName} was not found after renaming`);
+    }
+    return renamed;
+  }
+
+  /**
+   * Delete a folder. Special-use folders and INBOX are refused.
+   * With recursive, subfolders are deleted first (deepest first).
+   */
+  async deleteFolder(folder: string, recursive: boolean = false): Promise<string[]> {
+    const folders = await this.listFolders();
+    const target = folders.find((info) => info.name === folder);
+
+    if (!target) {
+      throw new Error(`Folder not found: ${folder}`);
+    }
+    if (folder.toUpperCase() === 'INBOX' || target.specialUse) {
+      throw new Error(`Refusing to delete system folder: ${folder}`);
+    }
+
+    const prefix = `${folder}${target.delimiter}`;
+    const children = folders.filter((info) => info.name.startsWith(prefix));
+
+    if (children.length > 0 && !recursive) {
+      throw new Error(`Folder ${folder} has subfolders; pass recursive to delete them too`);
+    }
+
+    const toDelete = [...children.map((info) => info.name), folder]
+      .sort((a, b) => b.split(target.delimiter).length - a.split(target.delimiter).length);
+
+    for (const name of toDelete) {
+      await this.runMailboxCommand((imap, cb) => imap.unsubscribeBox(name, cb)).catch(() => undefined);
+      await this.runMailboxCommand((imap, cb) => imap.delBox(name, cb));
+      this.cache?.clearFolder(name);
+    }
+
+    return toDelete;
+  }
+
+  /**
+   * Hierarchy delimiter used by the server
+   */
+  private async getDelimiter(): Promise<string> {
+    return this.pool.run(undefined, async (imap) => imap.delimiter || '/');
+  }
+
+  /**
+   * Run a mailbox-level command (CREATE, RENAME, DELETE, ...)
+   */
+  private async runMailboxCommand(
+    command: (imap: Imap, cb: (err: Error) => void) => void
+  ): Promise<void> {
+    return this.pool.run(undefined, (imap) => new Promise<void>((resolve, reject) => {
+      command(imap, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    }));
+  }
+
+  /**
+   * Append a raw RFC 822 message to a mailbox, returning its UID when the
+   * server reports one (UIDPLUS)
+   */
+  async appendMessage(raw: Buffer, folder: string, flags: string[] = []): Promise<number | undefined> {
+    const uid = await this.pool.run(undefined, (imap) => new Promise<number | undefined>((resolve, reject) => {
+      // node-imap passes the APPENDUID as a second callback argument
+      const append = imap.append.bind(imap) as (
+        data: Buffer,
+        options: Imap.AppendOptions,
+        callback: (error: Error | null, uid?: number) => void
+      ) => void;
+
+      append(raw, { mailbox: folder, flags }, (err, uid) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(uid);
+      });
+    }));
+
+    this.cache?.invalidate(folder);
+    return uid;
+  }
+
+  /**
+   * Find UIDs of messages with the given Message-ID header in a folder
+   */
+  async findByMessageId(messageId: string, folder: string = 'INBOX'): Promise<number[]> {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      imap.openBox(folder, true, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        imap.search([['HEADER', 'MESSAGE-ID', messageId]], (err, results) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          resolve(results);
+        });
+      });
+    }));
+  }
+
+  /**
+   * Permanently remove messages: flag them \Deleted and expunge.
+   * Uses UID EXPUNGE (UIDPLUS) so other \Deleted messages in the folder are left alone.
+   * Without UIDPLUS, those others lose \Deleted for the plain EXPUNGE and get it
+   * back afterwards, as node-imap does for MOVE.
+   */
+  async expungeMessages(uids: number[], folder: string): Promise<void> {
+    if (uids.length === 0) {
+      return;
+    }
+
+    await this.pool.run(folder, (imap) => new Promise<void>((resolve, reject) => {
+      imap.openBox(folder, false, async (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const store = (op: 'addFlags' | 'delFlags', targets: number[]): Promise<void> => new Promise((done, fail) => {
+          imap[op](targets, '\\Deleted', (storeErr) => (storeErr ? fail(storeErr) : done()));
+        });
+        const expunge = (targets?: number[]): Promise<void> => new Promise((done, fail) => {
+          const callback = (expungeErr: Error | null) => (expungeErr ? fail(expungeErr) : done());
+          if (targets) {
+            imap.expunge(targets, callback);
+          } else {
+            imap.expunge(callback);
+          }
+        });
+
+        try {
+          if (imap.serverSupports('UIDPLUS')) {
+            await store('addFlags', uids);
+            await expunge(uids);
+            resolve();
+            return;
+          }
+
+          const requested = new Set(uids);
+          const others = (await searchSelected(imap, ['DELETED'])).filter((uid) => !requested.has(uid));
+          if (others.length > 0) {
+            await store('delFlags', others);
+          }
+          try {
+            await store('addFlags', uids);
+            await expunge();
+          } finally {
+            if (others.length > 0) {
+              await store('addFlags', others);
+            }
+          }
+          resolve();
+        } catch (storeErr) {
+          reject(storeErr);
+        }
+      });
+    }));
+
+    this.cache?.invalidate(folder);
+  }
+
+  /**
+   * Add and/or remove flags and keywords on messages (IMAP STORE).
+   * System flags (\Seen, \Flagged, \Answered, \Draft, \Deleted) may be given with or
+   * without the backslash; anything else is treated as a custom keyword.
+   * Returns the resulting flags of each message.
+   */
+  async setFlags(params: SetFlagsParams): Promise<Array<{ uid: number; flags: string[] }>> {
+    const { uids, folder = 'INBOX', add = [], remove = [] } = params;
+
+    if (uids.length === 0) {
+      throw new Error('No UIDs given');
+    }
+    if (add.length === 0 && remove.length === 0) {
+      throw new Error('Nothing to change: give flags to add or remove');
+    }
+
+    const toAdd = splitFlags(add);
+    const toRemove = splitFlags(remove);
+
+    const changed = await this.pool.run(folder, (imap) => new Promise<Array<{ uid: number; flags: string[] }>>((resolve, reject) => {
+      imap.openBox(folder, false, async (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const store = (
+          op: 'addFlags' | 'delFlags' | 'addKeywords' | 'delKeywords',
+          items: string[]
+        ): Promise<void> => new Promise((done, fail) => {
+          if (items.length === 0) {
+            done();
+            return;
+          }
+          imap[op](uids, items, (storeErr) => (storeErr ? fail(storeErr) : done()));
+        });
+
+        try {
+          await store('addFlags', toAdd.flags);
+          await store('addKeywords', toAdd.keywords);
+          await store('delFlags', toRemove.flags);
+          await store('delKeywords', toRemove.keywords);
+        } catch (storeErr) {
+          reject(storeErr);
+          return;
+        }
+
+        // STORE uses FLAGS.SILENT, so read the flags back
+        const results: Array<{ uid: number; flags: string[] }> = [];
+        const fetch = imap.fetch(uids, {});
+
+        fetch.on('message', (msg) => {
+          msg.once('attributes', (attrs) => {
+            results.push({ uid: attrs.uid, flags: attrs.flags || [] });
+          });
+        });
+
+        fetch.once('error', (fetchErr) => {
+          reject(fetchErr);
+        });
+
+        fetch.once('end', () => {
+          resolve(results);
+        });
+      });
+    }));
+
+    this.cache?.invalidate(folder);
+    return changed;
+  }
+
+  /**
+   * Copy messages to another folder
+   */
+  async copyMessages(uids: number[], folder: string, destination: string): Promise<MessageTransferResult> {
+    return this.transferMessages('copy', uids, folder, destination);
+  }
+
+  /**
+   * Move messages to another folder. Uses IMAP MOVE when the server
+   * advertises it, otherwise COPY + \Deleted + EXPUNGE.
+   */
+  async moveMessages(uids: number[], folder: string, destination: string): Promise<MessageTransferResult> {
+    return this.transferMessages('move', uids, folder, destination);
+  }
+
+  /**
+   * Move messages to the special-use Archive folder
+   */
+  async archiveMessages(uids: number[], folder: string = 'INBOX'): Promise<MessageTransferResult> {
+    const archive = await this.findSpecialUseMailbox('\\Archive', ['Archive', 'Archived']);
+    if (!archive) {
+      throw new Error('Archive folder not found');
+    }
+    return this.moveMessages(uids, folder, archive);
+  }
+
+  /**
+   * Delete messages by moving them to the special-use Trash folder.
+   * Messages already in Trash, or when permanent is set, are expunged instead.
+   */
+  async deleteMessages(
+    uids: number[],
+    folder: string = 'INBOX',
+    permanent: boolean = false
+  ): Promise<MessageTransferResult> {
+    const trash = await this.findSpecialUseMailbox('\\Trash', ['Trash', 'Deleted Items', 'Deleted Messages']);
+
+    if (permanent || !trash || trash === folder) {
+      if (!permanent && !trash) {
+        throw new Error('Trash folder not found; pass permanent to expunge instead');
+      }
+      await this.expungeMessages(uids, folder);
+      return {
+        source: folder,
+        method: 'EXPUNGE',
+        messages: uids.map((uid) => ({ uid })),
+      };
+    }
+
+    return this.moveMessages(uids, folder, trash);
+  }
+
+  /**
+   * Copy or move messages, mapping source UIDs to their new UIDs.
+   * New UIDs come from COPYUID (UIDPLUS). MOVE in node-imap doesn't surface
+   * the untagged COPYUID, so those are looked up by Message-ID instead.
+   */
+  private async transferMessages(
+    op: 'copy' | 'move',
+    uids: number[],
+    folder: string,
+    destination: string
+  ): Promise<MessageTransferResult> {
+    if (uids.length === 0) {
+      throw new Error('No UIDs given');
+    }
+    if (folder === destination) {
+      throw new Error(`Source and destination are the same folder: ${folder}`);
+    }
+
+    const sorted = [...new Set(uids)].sort((a, b) => a - b);
+    const useMove = op === 'move' && await this.pool.serverSupports('MOVE');
+    const messageIds = useMove ? await this.fetchMessageIds(sorted, folder) : new Map<number, string>();
+
+    const copyUids = await this.pool.run(folder, (imap) => new Promise<number[] | undefined>((resolve, reject) => {
+      imap.openBox(folder, op === 'copy', (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        // node-imap passes the COPYUID destination set as a second callback argument
+        const run = (op === 'move' ? imap.move : imap.copy).bind(imap) as (
+          source: number[],
+          mailbox: string,
+          callback: (error: Error | null, destUids?: string | number) => void
+        ) => void;
+
+        try {
+          run(sorted, destination, (err, destUids) => {
+            if (err) {
+              reject(err);
+              return;
+            }
+            resolve(destUids !== undefined ? parseUidSet(destUids) : undefined);
+          });
+        } catch (runErr) {
+          reject(runErr);
+        }
+      });
+    }));
+
+    const messages: MessageTransferResult['messages'] = sorted.map((uid, i) => ({
+      uid,
+      newUid: copyUids && copyUids.length === sorted.length ? copyUids[i] : undefined,
+    }));
+
+    if (!copyUids && messageIds.size > 0) {
+      for (const message of messages) {
+        const messageId = messageIds.get(message.uid);
+        if (!messageId) {
+          continue;
+        }
+        const matches = await this.findByMessageId(messageId, destination);
+        message.newUid = matches.length > 0 ? Math.max(...matches) : undefined;
+      }
+    }
+
+    this.cache?.invalidate(folder);
+    this.cache?.invalidate(destination);
+
+    return {
+      source: folder,
+      destination,
+      method: op === 'copy' ? 'COPY' : useMove ? 'MOVE' : 'COPY+EXPUNGE',
+      messages,
+    };
+  }
+
+  /**
+   * Fetch the Message-ID header of each message
+   */
+  private async fetchMessageIds(uids: number[], folder: string): Promise<Map<number, string>> {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      imap.openBox(folder, true, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const messageIds = new Map<number, string>();
+        const fetch = imap.fetch(uids, { bodies: 'HEADER.FIELDS (MESSAGE-ID)' });
+
+        fetch.on('message', (msg) => {
+          let header = '';
+          let uid: number | undefined;
+
+          msg.on('body', (stream) => {
+            stream.on('data', (chunk: Buffer) => {
+              header += chunk.toString('utf8');
+            });
+          });
+
+          msg.once('attributes', (attrs) => {
+            uid = attrs.uid;
+          });
+
+          msg.once('end', () => {
+            const messageId = Imap.parseHeader(header)['message-id']?.[0];
+            if (uid !== undefined && messageId) {
+              messageIds.set(uid, messageId.trim());
+            }
+          });
+        });
+
+        fetch.once('error', (fetchErr) => {
+          reject(fetchErr);
+        });
+
+        fetch.once('end', () => {
+          resolve(messageIds);
+        });
+      });
+    }));
+  }
+
+  /**
+   * Rebuild the conversation an email belongs to across INBOX, Sent and Archive.
+   *
+   * Messages are collected by following Message-ID, In-Reply-To and References
+   * until no new messages turn up. When the server supports THREAD=REFERENCES
+   * its threads are used to pick up replies that lost their threading headers.
+   * The result is de-duplicated by Message-ID and ordered by date.
+   */
+  async getThread(emailId: string, folder: string = 'INBOX', options: GetThreadOptions = {}): Promise<ThreadMessage[]> {
+    const { limit = 100 } = options;
+    const uid = parseInt(emailId, 10);
+
+    const [seed] = await this.fetchThreadHeaders([uid], folder);
+    if (!seed) {
+      throw new Error(`Email ${emailId} not found in ${folder}`);
+    }
+
+    const folders = [folder, ...(options.folders || [])];
+    if (!options.folders) {
+      folders.push(
+        'INBOX',
+        ...[
+          await this.findSpecialUseMailbox('\\Sent', ['Sent', 'Sent Items', 'Sent Messages']),
+          await this.findSpecialUseMailbox('\\Archive', ['Archive', 'Archived']),
+        ].filter((name): name is string => name !== undefined)
+      );
+    }
+    const searchFolders = [...new Set(folders)];
+
+    const found = new Map<string, ThreadMessage>();
+    const key = (message: ThreadMessage) => `${message.folder}\u0000${message.uid}`;
+    found.set(key(seed), seed);
+
+    const knownIds = new Set<string>();
+    let pending = threadIdsOf(seed);
+
+    // Follow the references outwards; each round searches for the ids found in the previous one
+    for (let round = 0; round < 5 && pending.length > 0 && found.size < limit; round++) {
+      pending.forEach((id) => knownIds.add(id));
+      const discovered: ThreadMessage[] = [];
+
+      for (const name of searchFolders) {
+        for (let i = 0; i < pending.length; i += 10) {
+          const ids = pending.slice(i, i + 10);
+          const criteria = orCriteria(ids.flatMap((id) => [
+            ['HEADER', 'MESSAGE-ID', id],
+            ['HEADER', 'IN-REPLY-TO', id],
+            ['HEADER', 'REFERENCES', id],
+          ]));
+          const uids = (await this.searchUids([criteria], name)).filter(
+            (candidate) => !found.has(`${name}\u0000${candidate}`)
+          );
+          for (const message of await this.fetchThreadHeaders(uids, name)) {
+            found.set(key(message), message);
+            discovered.push(message);
+          }
+        }
+      }
+
+      pending = [...new Set(discovered.flatMap(threadIdsOf))].filter((id) => !knownIds.has(id));
+    }
+
+    // Server-side threading also groups replies by subject when headers are missing
+    const baseSubject = normalizeSubject(seed.subject);
+    if (baseSubject && await this.pool.serverSupports('THREAD=REFERENCES')) {
+      for (const name of searchFolders) {
+        const threads = await this.threadUids([['SUBJECT', baseSubject]], name);
+        const extra = threads
+          .filter((thread) => thread.some((candidate) => found.has(`${name}\u0000${candidate}`)))
+          .flat()
+          .filter((candidate) => !found.has(`${name}\u0000${candidate}`));
+        for (const message of await this.fetchThreadHeaders(extra, name)) {
+          found.set(key(message), message);
+        }
+      }
+    }
+
+    // The same message can live in several folders; prefer the copy in the requested folder
+    const unique = new Map<string, ThreadMessage>();
+    for (const message of found.values()) {
+      const id = message.messageId || key(message);
+      const existing = unique.get(id);
+      if (!existing || (existing.folder !== folder && message.folder === folder)) {
+        unique.set(id, message);
+      }
+    }
+
+    const ordered = flattenThread(threadMessages([...unique.values()]))
+      .map(({ message, depth, parentMessageId }) => ({ ...message, depth, parentMessageId }))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    return ordered.slice(0, limit);
+  }
+
+  /**
+   * Run a UID SEARCH in a folder
+   */
+  private async searchUids(criteria: any[], folder: string): Promise<number[]> {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      imap.openBox(folder, true, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        searchSelected(imap, criteria).then(resolve, reject);
+      });
+    }));
+  }
+
+  /**
+   * Run UID THREAD REFERENCES in a folder, returning the UIDs of each thread
+   */
+  private async threadUids(criteria: any[], folder: string): Promise<number[][]> {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      imap.openBox(folder, true, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        // node-imap's typings don't include THREAD
+        (imap as any).thread('REFERENCES', criteria, (err: Error | null, threads: any[]) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+
+          const flatten = (node: any): number[] =>
+            Array.isArray(node) ? node.flatMap(flatten) : [Number(node)].filter((n) => !isNaN(n));
+          resolve((threads || []).map((thread) => flatten(thread)));
+        });
+      });
+    }));
+  }
+
+  /**
+   * Fetch the envelope and threading headers of messages, without their bodies
+   */
+  private async fetchThreadHeaders(uids: number[], folder: string): Promise<ThreadMessage[]> {
+    if (uids.length === 0) {
+      return [];
+    }
+
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      imap.openBox(folder, true, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const messages: ThreadMessage[] = [];
+        const fetch = imap.fetch(uids, {
+          bodies: 'HEADER.FIELDS (REFERENCES)',
+          envelope: true,
+        });
+
+        fetch.on('message', (msg) => {
+          let header = '';
+          let attributes: any;
+
+          msg.on('body', (stream) => {
+            stream.on('data', (chunk: Buffer) => {
+              header += chunk.toString('utf8');
+            });
+          });
+
+          msg.once('attributes', (attrs) => {
+            attributes = attrs;
+          });
+
+          msg.once('end', () => {
+            const envelope = attributes?.envelope;
+            if (!envelope) {
+              return;
+            }
+
+            const inReplyTo = parseMessageIds(envelope.inReplyTo || '')[0];
+            messages.push({
+              uid: attributes.uid,
+              folder,
+              messageId: (envelope.messageId || '').trim(),
+              subject: envelope.subject || '(No Subject)',
+              from: toEmailAddresses(envelope.from),
+              to: toEmailAddresses(envelope.to),
+              cc: envelope.cc ? toEmailAddresses(envelope.cc) : undefined,
+              date: envelope.date && !isNaN(envelope.date.getTime()) ? envelope.date : new Date(0),
+              inReplyTo,
+              references: parseMessageIds((Imap.parseHeader(header).references || []).join(' ')),
+              flags: attributes.flags || [],
+              depth: 0,
+            });
+          });
+        });
+
+        fetch.once('error', (fetchErr) => {
+          reject(fetchErr);
+        });
+
+        fetch.once('end', () => {
+          resolve(messages);
+        });
+      });
+    }));
+  }
+
+  /**
+   * List the attachments of an email from its BODYSTRUCTURE, without downloading them
+   */
+  async listAttachments(emailId: string, folder: string = 'INBOX'): Promise<Attachment[]> {
+    const parts = await this.fetchStructure(parseInt(emailId, 10), folder);
+    return toAttachmentList(parts);
+  }
+
+  /**
+   * Download a single attachment, selected by index, filename or content-id.
+   * Only the selected MIME part is fetched. Attachments whose size exceeds
+   * maxSize are refused before anything is downloaded.
+   */
+  async getAttachment(
+    emailId: string,
+    folder: string = 'INBOX',
+    selector: AttachmentSelector = {},
+    maxSize?: number
+  ): Promise<Attachment> {
+    const uid = parseInt(emailId, 10);
+    const parts = await this.fetchStructure(uid, folder);
+    const attachments = toAttachmentList(parts);
+
+    if (attachments.length === 0) {
+      throw new Error(`Email ${emailId} has no attachments`);
+    }
+
+    let attachment: Attachment | undefined;
+    if (selector.index !== undefined) {
+      attachment = attachments[selector.index];
+    } else if (selector.contentId) {
+      const cid = selector.contentId.replace(/^<|>$/g, '');
+      attachment = attachments.find((att) => att.cid === cid);
+    } else if (selector.filename) {
+      const filename = selector.filename.toLowerCase();
+      attachment = attachments.find((att) => att.filename.toLowerCase() === filename);
+    } else if (attachments.length === 1) {
+      attachment = attachments[0];
+    } else {
+      throw new Error(
+        `Email ${emailId} has ${attachments.length} attachments; select one by index, filename or contentId: `
+        + attachments.map((att) => `[${att.index}] ${att.filename}`).join(', ')
+      );
+    }
+
+    if (!attachment || !attachment.partId) {
+      throw new Error(
+        `Attachment not found. Available: ${attachments.map((att) => `[${att.index}] ${att.filename}`).join(', ')}`
+      );
+    }
+
+    if (maxSize !== undefined && attachment.size > maxSize) {
+      throw new Error(
+        `Attachment ${attachment.filename} is ${attachment.size} bytes, over the limit of ${maxSize} bytes`
+      );
+    }
+
+    const partId = attachment.partId;
+    const part = parts.find((candidate) => candidate.partId === partId);
+    const raw = await this.fetchPart(uid, folder, partId);
+    const content = decodeTransferEncoding(raw, part?.encoding || '7bit');
+
+    return { ...attachment, size: content.length, content };
+  }
+
+  /**
+   * Fetch the BODYSTRUCTURE of a message and flatten it into leaf parts
+   */
+  private async fetchStructure(uid: number, folder: string): Promise<MimePart[]> {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      imap.openBox(folder, true, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        let struct: any[] | undefined;
+        const fetch = imap.fetch([uid], { struct: true });
+
+        fetch.on('message', (msg) => {
+          msg.once('attributes', (attrs) => {
+            struct = attrs.struct;
+          });
+        });
+
+        fetch.once('error', (fetchErr) => {
+          reject(fetchErr);
+        });
+
+        fetch.once('end', () => {
+          if (!struct) {
+            reject(new Error(`Email ${uid} not found in ${folder}`));
+            return;
+          }
+          resolve(flattenStructure(struct));
+        });
+      });
+    }));
+  }
+
+  /**
+   * Fetch the raw (still transfer-encoded) body of a single MIME part
+   */
+  private async fetchPart(uid: number, folder: string, partId: string): Promise<Buffer> {
+    return this.pool.run(folder, (imap) => new Promise((resolve, reject) => {
+      imap.openBox(folder, true, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        const fetch = imap.fetch([uid], { bodies: partId });
+
+        fetch.on('message', (msg) => {
+          msg.on('body', (stream) => {
+            stream.on('data', (chunk: Buffer) => {
+              chunks.push(chunk);
+            });
+          });
+        });
+
+        fetch.once('error', (fetchErr) => {
+          reject(fetchErr);
+        });
+
+        fetch.once('end', () => {
+          resolve(Buffer.concat(chunks));
+        });
+      });
+    }));
+  }
+}
+
+interface FolderSearchOptions {
+  limit: number;
+  /** Skip this many matches (ignored with position) */
+  offset?: number;
+  /** Continue where a previous page stopped */
+  position?: CursorPosition;
+  markSeen?: boolean;
+  compiled?: CompiledSearch;
+}
+
+interface FolderPage {
+  folder: string;
+  emails: Email[];
+  /** Where this page started, for cursors of merged multi-folder results */
+  start: CursorPosition;
+  /** Where the next page starts, if there are more matches */
+  next?: CursorPosition;
+}
+
+/** Folder names treated as Trash and Spam when the server doesn't mark them with SPECIAL-USE */
+const TRASH_NAMES = ['trash', 'deleted items', 'deleted messages'];
+const SPAM_NAMES = ['spam', 'junk', 'bulk', 'bulk mail'];
+
+/** Highest possible UID (RFC 3501: a 32-bit number), for servers that don't report UIDNEXT */
+const MAX_UID = 4294967295;
+
+/** Largest message whose body yahoo_mail_sync downloads with bodies */
+const SYNC_BODY_MAX_SIZE = 2 * 1024 * 1024;
+
+/** Summaries fetched per round when a search has clauses that are checked locally */
+const SEARCH_FILTER_BATCH = 100;
+
+/** Largest text part fetched to build a snippet; bigger ones (e.g. HTML newsletters) get none */
+const SNIPPET_PART_MAX_SIZE = 64 * 1024;
+
+const SPECIAL_USE_ATTRIBUTES = ['\\all', '\\archive', '\\drafts', '\\flagged', '\\junk', '\\sent', '\\trash'];
+
+const SYSTEM_FLAGS: Record<string, string> = {
+  seen: '\\Seen',
+  read: '\\Seen',
+  flagged: '\\Flagged',
+  starred: '\\Flagged',
+  answered: '\\Answered',
+  draft: '\\Draft',
+  deleted: '\\Deleted',
+};
+
+/**
+ * Attachment entries for the attachment parts of a message, indexed in MIME order
+ */
+function toAttachmentList(parts: MimePart[]): Attachment[] {
+  return parts.filter(isAttachmentPart).map((part, index) => ({
+    index,
+    partId: part.partId,
+    filename: part.filename || `attachment-${index + 1}`,
+    contentType: part.contentType,
+    size: estimateDecodedSize(part),
+    cid: part.cid,
+  }));
+}
+
+/**
+ * Expand an IMAP UID set such as "10:12,15" into ascending UIDs
+ */
+function parseUidSet(set: string | number): number[] {
+  const uids: number[] = [];
+  for (const part of String(set).split(',')) {
+    const [start, end] = part.split(':').map((n) => parseInt(n, 10));
+    if (end === undefined) {
+      uids.push(start);
+    } else {
+      for (let uid = Math.min(start, end); uid <= Math.max(start, end); uid++) {
+        uids.push(uid);
+      }
+    }
+  }
+  return uids;
+}
+
+/**
+ * Separate system flags from custom keywords, normalizing flag spelling
+ */
+function splitFlags(items: string[]): { flags: string[]; keywords: string[] } {
+  const flags: string[] = [];
+  const keywords: string[] = [];
+
+  for (const item of items) {
+    const name = item.trim();
+    const systemFlag = SYSTEM_FLAGS[name.replace(/^\\/, '').toLowerCase()];
+    if (systemFlag) {
+      flags.push(systemFlag);
+    } else if (name.startsWith('\\')) {
+      throw new Error(`Unknown system flag: ${name}`);
+    } else if (name) {
+      keywords.push(name);
+    }
+  }
+
+  return { flags, keywords };
+}
+
+/**
+ * Convert node-imap envelope addresses ({ name, mailbox, host }) to EmailAddress,
+ * expanding address groups
+ */
+function toEmailAddresses(list: any[] | null | undefined): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+  for (const entry of list || []) {
+    if (entry.group) {
+      addresses.push(...toEmailAddresses(entry.addresses));
+    } else if (entry.mailbox) {
+      addresses.push({
+        name: entry.name || undefined,
+        address: entry.host ? `${entry.mailbox}@${entry.host}` : entry.mailbox,
+      });
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Extract the <...> message ids from a Message-ID, In-Reply-To or References value
+ */
+function parseMessageIds(value: string): string[] {
+  return value.match(/<[^<>\s]+>/g) || [];
+}
+
+/**
+ * All message ids that tie a message into its thread
+ */
+function threadIdsOf(message: ThreadMessage): string[] {
+  return [
+    ...(message.messageId ? [message.messageId] : []),
+    ...(message.inReplyTo ? [message.inReplyTo] : []),
+    ...message.references,
+  ];
+}
+
+/**
+ * Whether a folder has the given special-use attribute, or one of the usual names for it
+ */
+function isSpecialFolder(mailbox: MailboxInfo, attribute: string, names: string[]): boolean {
+  if (mailbox.specialUse) {
+    return mailbox.specialUse.toLowerCase() === attribute;
+  }
+  return names.includes(mailbox.displayName.toLowerCase());
+}
+
+/**
+ * Fetch the flags of a UID range in the selected folder, only for messages
+ * changed since modseq when given (CONDSTORE CHANGEDSINCE)
+ */
+function fetchFlags(imap: Imap, range: string, modseq?: string): Promise<Map<number, string[]>> {
+  return new Promise((resolve, reject) => {
+    const flags = new Map<number, string[]>();
+    const fetch = imap.fetch(range, modseq ? { modifiers: { changedsince: modseq } } as any : {});
+
+    fetch.on('message', (msg) => {
+      msg.once('attributes', (attrs) => {
+        flags.set(attrs.uid, attrs.flags || []);
+      });
+    });
+
+    fetch.once('error', (fetchErr) => {
+      reject(fetchErr);
+    });
+
+    fetch.once('end', () => {
+      resolve(flags);
+    });
+  });
+}
+
+function sameFlags(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((flag) => b.includes(flag));
+}
+
+/**
+ * Run SEARCH on the folder currently selected on imap
+ */
+function searchSelected(imap: Imap, criteria: any[]): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    imap.search(criteria, (err, results) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(results);
+    });
+  });
+}
@@ -0,0 +1,306 @@
+/**
+ * IMAP connection management for Yahoo Mail
+ *
+ * A node-imap connection has a single selected mailbox, so a SELECT and the
+ * commands that depend on it must not interleave with other tool calls.
+ * ImapConnection runs tasks one at a time on one socket, reconnects with a
+ * fresh XOAUTH2 token when the server drops the session, and keeps the socket
+ * alive with NOOP while idle. ImapConnectionPool spreads tasks for different
+ * folders over a few connections.
+ */
+
+import Imap from 'imap';
+import type { YahooOAuth2 } from './oauth2.js';
+
+export interface ImapConnectionOptions {
+  user: string;
+  host: string;
+  port: number;
+  /** Milliseconds between NOOPs (or IDLE restarts with idle) while the connection is idle. Default: 2 minutes */
+  keepaliveInterval?: number;
+  /** Sit in IDLE between tasks so the server pushes mailbox changes, instead of sending NOOPs */
+  idle?: boolean;
+  /** Called when an established connection drops */
+  onClose?: (err: Error) => void;
+  /**
+   * Reconnect before running a task once the connection is older than this
+   * (milliseconds), so the session never outlives its access token. Default: 50 minutes
+   */
+  maxAge?: number;
+  /**
+   * Milliseconds a task may run before the connection is dropped and the task
+   * rejected, so a command the server never answers can't stall the queue. Default: 5 minutes
+   */
+  taskTimeout?: number;
+}
+
+export type ImapTask<T> = (imap: Imap) => Promise<T>;
+
+/**
+ * A single IMAP connection with a task queue
+ */
+export class ImapConnection {
+  private oauth2: YahooOAuth2;
+  private options: ImapConnectionOptions;
+  private imap: Imap | null = null;
+  private connectedAt: number = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending: number = 0;
+  private closeListeners = new Set<(err: Error) => void>();
+
+  /** Folder of the most recently queued task, used by the pool to keep folders on the same connection */
+  lastFolder?: string;
+
+  constructor(oauth2: YahooOAuth2, options: ImapConnectionOptions) {
+    this.oauth2 = oauth2;
+    this.options = options;
+  }
+
+  /**
+   * Number of queued and running tasks
+   */
+  get queueLength(): number {
+    return this.pending;
+  }
+
+  /**
+   * Check if connected and authenticated
+   */
+  isConnected(): boolean {
+    return this.imap !== null && this.imap.state === 'authenticated';
+  }
+
+  /**
+   * Run a task with exclusive use of the connection. Tasks run one at a time
+   * in the order they were queued. The task is rejected if the connection
+   * drops while it runs or it times out; the next task reconnects.
+   */
+  run<T>(folder: string | undefined, task: ImapTask<T>): Promise<T> {
+    if (folder) {
+      this.lastFolder = folder;
+    }
+    this.pending++;
+
+    const result = this.queue.then(async () => {
+      const imap = await this.ensureConnected();
+      return this.untilClosed(imap, task(imap));
+    });
+
+    this.queue = result
+      .catch(() => undefined)
+      .finally(() => {
+        this.pending--;
+      });
+
+    return result;
+  }
+
+  /**
+   * Close the connection once queued tasks have finished
+   */
+  async disconnect(): Promise<void> {
+    await this.queue;
+
+    const imap = this.imap;
+    this.imap = null;
+    if (!imap || imap.state === 'disconnected') {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      imap.once('end', () => resolve());
+      imap.once('close', () => resolve());
+      imap.end();
+    });
+  }
+
+  /**
+   * Return a usable connection, reconnecting if it was dropped or is about to
+   * outlive its access token
+   */
+  private async ensureConnected(): Promise<Imap> {
+    const maxAge = this.options.maxAge ?? 50 * 60 * 1000;
+
+    if (this.imap && this.isConnected()) {
+      if (Date.now() - this.connectedAt < maxAge) {
+        return this.imap;
+      }
+      const stale = this.imap;
+      this.imap = null;
+      stale.end();
+    }
+
+    return this.connect();
+  }
+
+  /**
+   * Open a new connection with a fresh access token. If the server rejects the
+   * token, it is refreshed once and the login retried.
+   */
+  private async connect(retryAuth: boolean = true): Promise<Imap> {
+    const accessToken = await this.oauth2.getAccessToken();
+
+    const imap = new Imap({
+      user: this.options.user,
+      xoauth2: accessToken, // OAuth2 token for XOAUTH2 authentication
+      host: this.options.host,
+      port: this.options.port,
+      tls: true,
+      tlsOptions: { rejectUnauthorized: false },
+      keepalive: this.options.idle
+        ? { idleInterval: this.options.keepaliveInterval ?? 2 * 60 * 1000 }
+        : { interval: this.options.keepaliveInterval ?? 2 * 60 * 1000, forceNoop: true },
+    } as any); // Type assertion needed for xoauth2
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        let ready = false;
+
+        imap.once('ready', () => {
+          ready = true;
+          resolve();
+        });
+
+        // Keep an error listener for the connection's lifetime; node-imap emits
+        // 'error' for socket failures and an unhandled one would crash the server
+        imap.on('error', (err: Error) => {
+          if (ready) {
+            this.handleClose(imap, err);
+          } else {
+            reject(err);
+          }
+        });
+
+        imap.connect();
+      });
+    } catch (error) {
+      if (retryAuth && (error as { source?: string }).source === 'authentication') {
+        await this.oauth2.refreshAccessToken();
+        return this.connect(false);
+      }
+      throw error;
+    }
+
+    imap.once('close', () => this.handleClose(imap, new Error('IMAP connection closed')));
+    imap.once('end', () => this.handleClose(imap, new Error('IMAP connection ended')));
+
+    this.imap = imap;
+    this.connectedAt = Date.now();
+    return imap;
+  }
+
+  /**
+   * Forget a dropped connection and fail the task running on it
+   */
+  private handleClose(imap: Imap, err: Error): void {
+    if (this.imap !== imap) {
+      return;
+    }
+    this.imap = null;
+    console.error(`IMAP connection lost: ${err.message}`);
+
+    for (const listener of this.closeListeners) {
+      listener(err);
+    }
+    this.options.onClose?.(err);
+  }
+
+  /**
+   * Settle with the task, or reject if the connection drops first
+   * (node-imap does not always call back pending commands on close).
+   * A task that outlives the timeout drops the connection.
+   */
+  private untilClosed<T>(imap: Imap, promise: Promise<T>): Promise<T> {
+    const timeout = this.options.taskTimeout ?? 5 * 60 * 1000;
+
+    return new Promise((resolve, reject) => {
+      const onClose = (err: Error) => reject(err);
+      this.closeListeners.add(onClose);
+
+      const timer = setTimeout(() => {
+        const err = new Error(`IMAP command timed out after ${Math.round(timeout / 1000)}s`);
+        this.handleClose(imap, err);
+        imap.destroy();
+        reject(err);
+      }, timeout);
+
+      promise
+        .then(resolve, reject)
+        .finally(() => {
+          clearTimeout(timer);
+          this.closeListeners.delete(onClose);
+        });
+    });
+  }
+}
+
+/**
+ * A small pool of IMAP connections. Tasks for the same folder stay on the
+ * same connection when possible so they don't keep re-selecting mailboxes.
+ */
+export class ImapConnectionPool {
+  private oauth2: YahooOAuth2;
+  private options: ImapConnectionOptions;
+  private size: number;
+  private connections: ImapConnection[] = [];
+
+  constructor(oauth2: YahooOAuth2, options: ImapConnectionOptions, size: number = 1) {
+    this.oauth2 = oauth2;
+    this.options = options;
+    this.size = Math.max(1, size);
+  }
+
+  /**
+   * Run a task on a pooled connection. folder is the mailbox the task selects, if any.
+   */
+  run<T>(folder: string | undefined, task: ImapTask<T>): Promise<T> {
+    return this.pick(folder).run(folder, task);
+  }
+
+  /**
+   * Check if any pooled connection is connected
+   */
+  isConnected(): boolean {
+    return this.connections.some((connection) => connection.isConnected());
+  }
+
+  /**
+   * Check a server capability, connecting first if needed
+   */
+  async serverSupports(capability: string): Promise<boolean> {
+    return this.run(undefined, async (imap) => imap.serverSupports(capability));
+  }
+
+  /**
+   * Close all connections
+   */
+  async disconnect(): Promise<void> {
+    const connections = this.connections;
+    this.connections = [];
+    await Promise.all(connections.map((connection) => connection.disconnect()));
+  }
+
+  private pick(folder: string | undefined): ImapConnection {
+    const idle = this.connections.filter((connection) => connection.queueLength === 0);
+
+    const sameFolder = folder ? idle.find((connection) => connection.lastFolder === folder) : undefined;
+    if (sameFolder) {
+      return sameFolder;
+    }
+    if (idle.length > 0) {
+      return idle.find((connection) => connection.isConnected()) || idle[0];
+    }
+
+    if (this.connections.length < this.size) {
+      const connection = new ImapConnection(this.oauth2, this.options);
+      this.connections.push(connection);
+      return connection;
+    }
+
+    // Everything is busy: queue behind work on the same folder, else on the shortest queue
+    const busyWithFolder = folder
+      ? this.connections.find((connection) => connection.lastFolder === folder)
+      : undefined;
+    return busyWithFolder || this.connections.reduce((a, b) => (b.queueLength < a.queueLength ? b : a));
+  }
+}
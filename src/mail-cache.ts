@@ -0,0 +1,174 @@
+/**
+ * Persistent local cache of mail summaries and parsed bodies
+ *
+ * One directory per folder holds folder.json (the folder's UIDVALIDITY,
+ * UIDNEXT, HIGHESTMODSEQ and the envelope summaries of its newest messages)
+ * and a bodies/ directory with the parsed content of messages that were
+ * opened with getEmail. UIDs are only meaningful for one UIDVALIDITY, so a
+ * change wipes the folder. Syncing is done by YahooIMAPClient.syncFolder;
+ * this module only stores and loads.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Email } from './types.js';
+
+export interface CachedFolder {
+  folder: string;
+  uidValidity: number;
+  uidNext: number;
+  /** HIGHESTMODSEQ when the server supports CONDSTORE */
+  highestModSeq?: string;
+  /** Lowest UID the cache covers; older messages were not synced (1 when the whole folder is cached) */
+  oldestUid: number;
+  /** Milliseconds since the epoch of the last sync; 0 when invalidated */
+  syncedAt: number;
+  /** Summaries, highest UID first */
+  messages: Email[];
+}
+
+export interface MailCacheOptions {
+  /** How long a sync is considered fresh, in milliseconds. Default: 60 seconds */
+  ttl?: number;
+  /** Most recent messages per folder kept in the cache. Default: 500 */
+  maxMessages?: number;
+}
+
+export class MailCache {
+  readonly dir: string;
+  readonly ttl: number;
+  readonly maxMessages: number;
+  private folders = new Map<string, CachedFolder | null>();
+
+  constructor(dir: string, options: MailCacheOptions = {}) {
+    this.dir = dir;
+    this.ttl = options.ttl ?? 60 * 1000;
+    this.maxMessages = options.maxMessages ?? 500;
+  }
+
+  /**
+   * Load a folder's cached state, or undefined if it was never synced
+   */
+  loadFolder(folder: string): CachedFolder | undefined {
+    if (!this.folders.has(folder)) {
+      this.folders.set(folder, readJson<CachedFolder>(path.join(this.folderDir(folder), 'folder.json')) || null);
+    }
+    return this.folders.get(folder) || undefined;
+  }
+
+  /**
+   * Save a folder's state. A new UIDVALIDITY drops the bodies cached for the old one.
+   */
+  saveFolder(state: CachedFolder): void {
+    const previous = this.loadFolder(state.folder);
+    if (previous && previous.uidValidity !== state.uidValidity) {
+      this.clearFolder(state.folder);
+    }
+
+    this.folders.set(state.folder, state);
+    writeJson(path.join(this.folderDir(state.folder), 'folder.json'), state);
+  }
+
+  /**
+   * Folders that have been synced
+   */
+  listFolders(): string[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs.readdirSync(this.dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && fs.existsSync(path.join(this.dir, entry.name, 'folder.json')))
+      .map((entry) => decodeURIComponent(entry.name));
+  }
+
+  /**
+   * Whether the folder was synced within the TTL
+   */
+  isFresh(state: CachedFolder): boolean {
+    return Date.now() - state.syncedAt < this.ttl;
+  }
+
+  /**
+   * Mark a folder as stale after a change made through this client, so the next read syncs first
+   */
+  invalidate(folder: string): void {
+    const state = this.loadFolder(folder);
+    if (state) {
+      state.syncedAt = 0;
+    }
+  }
+
+  /**
+   * Remove everything cached for a folder
+   */
+  clearFolder(folder: string): void {
+    this.folders.delete(folder);
+    fs.rmSync(this.folderDir(folder), { recursive: true, force: true });
+  }
+
+  /**
+   * A parsed message saved by saveBody, if cached for this UIDVALIDITY
+   */
+  getBody(folder: string, uidValidity: number, uid: number): Email | undefined {
+    return readJson<Email>(this.bodyPath(folder, uidValidity, uid));
+  }
+
+  /**
+   * Whether a parsed message is cached, without reading it
+   */
+  hasBody(folder: string, uidValidity: number, uid: number): boolean {
+    return fs.existsSync(this.bodyPath(folder, uidValidity, uid));
+  }
+
+  /**
+   * Save a parsed message. Attachment content is never cached.
+   */
+  saveBody(folder: string, uidValidity: number, email: Email): void {
+    const attachments = email.attachments?.map(({ content, ...attachment }) => attachment);
+    writeJson(this.bodyPath(folder, uidValidity, email.uid), { ...email, attachments });
+  }
+
+  /**
+   * Forget the bodies of expunged messages
+   */
+  removeBodies(folder: string, uidValidity: number, uids: number[]): void {
+    for (const uid of uids) {
+      fs.rmSync(this.bodyPath(folder, uidValidity, uid), { force: true });
+    }
+  }
+
+  private folderDir(folder: string): string {
+    return path.join(this.dir, encodeURIComponent(folder));
+  }
+
+  private bodyPath(folder: string, uidValidity: number, uid: number): string {
+    return path.join(this.folderDir(folder), 'bodies', `${uidValidity}-${uid}.json`);
+  }
+}
+
+/**
+ * Read a JSON file written by writeJson, reviving dates. Missing or corrupt files read as undefined.
+ */
+function readJson<T>(file: string): T | undefined {
+  try {
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf-8'), (key, value) =>
+      key === 'date' && typeof value === 'string' ? new Date(value) : value
+    ) as T;
+  } catch (error) {
+    console.error(`Ignoring unreadable cache file ${file}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Write a JSON file readable by the owner only, replacing it atomically
+ */
+function writeJson(file: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  const temp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(data), { mode: 0o600 });
+  fs.renameSync(temp, file);
+}
@@ -0,0 +1,269 @@
+/**
+ * New-mail watcher for Yahoo Mail
+ *
+ * Keeps one IMAP connection per watched folder sitting in IDLE, so the server
+ * pushes EXISTS and EXPUNGE as they happen. Changes are detected by comparing
+ * UIDNEXT and the message count with the last known state, which also covers
+ * mail that arrived while the connection was down: after a reconnect the
+ * folder is re-selected and whatever changed in between is reported.
+ */
+
+import type Imap from 'imap';
+import { ImapConnection, type ImapConnectionOptions } from './imap-connection.js';
+import type { Email } from './types.js';
+import type { YahooIMAPClient } from './imap-client.js';
+import type { YahooOAuth2 } from './oauth2.js';
+
+export interface MailboxChange {
+  folder: string;
+  uidValidity: number;
+  uidNext: number;
+  exists: number;
+  newMessages: Email[];
+  expunged: number;
+  /** UIDVALIDITY changed, so earlier UIDs for this folder are no longer valid */
+  reset: boolean;
+}
+
+export interface MailWatcherOptions {
+  /** Fallback check interval in milliseconds, in case a push was missed. Default: 5 minutes */
+  pollInterval?: number;
+  /** Longest wait between reconnect attempts in milliseconds. Default: 5 minutes */
+  maxBackoff?: number;
+}
+
+interface FolderState {
+  uidValidity: number;
+  uidNext: number;
+  exists: number;
+}
+
+export class MailWatcher {
+  private watches: FolderWatch[];
+
+  constructor(
+    oauth2: YahooOAuth2,
+    connectionOptions: ImapConnectionOptions,
+    client: YahooIMAPClient,
+    folders: string[],
+    listener: (change: MailboxChange) => void,
+    options: MailWatcherOptions = {}
+  ) {
+    this.watches = [...new Set(folders)].map(
+      (folder) => new FolderWatch(oauth2, connectionOptions, client, folder, listener, options)
+    );
+  }
+
+  /**
+   * Folders being watched
+   */
+  get folders(): string[] {
+    return this.watches.map((watch) => watch.folder);
+  }
+
+  /**
+   * Start watching. Connection failures are retried in the background.
+   */
+  start(): void {
+    for (const watch of this.watches) {
+      watch.start();
+    }
+  }
+
+  /**
+   * Stop watching and close the connections
+   */
+  async stop(): Promise<void> {
+    await Promise.all(this.watches.map((watch) => watch.stop()));
+  }
+}
+
+/**
+ * Watches a single folder on its own connection
+ */
+class FolderWatch {
+  readonly folder: string;
+  private connection: ImapConnection;
+  private client: YahooIMAPClient;
+  private listener: (change: MailboxChange) => void;
+  private options: MailWatcherOptions;
+  private state?: FolderState;
+  private selectedOn?: Imap;
+  private box?: Imap.Box;
+  private expunged = 0;
+  private running = false;
+  private checkQueued = false;
+  private attempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private pollTimer?: NodeJS.Timeout;
+
+  constructor(
+    oauth2: YahooOAuth2,
+    connectionOptions: ImapConnectionOptions,
+    client: YahooIMAPClient,
+    folder: string,
+    listener: (change: MailboxChange) => void,
+    options: MailWatcherOptions
+  ) {
+    this.folder = folder;
+    this.client = client;
+    this.listener = listener;
+    this.options = options;
+    this.connection = new ImapConnection(oauth2, {
+      ...connectionOptions,
+      idle: true,
+      onClose: () => this.scheduleReconnect(),
+    });
+  }
+
+  start(): void {
+    this.running = true;
+    this.pollTimer = setInterval(() => this.check(), this.options.pollInterval ?? 5 * 60 * 1000);
+    this.check();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    clearInterval(this.pollTimer);
+    clearTimeout(this.reconnectTimer);
+    await this.connection.disconnect();
+  }
+
+  /**
+   * Compare the folder with the last known state and report changes.
+   * Checks triggered while one is queued are folded into it.
+   */
+  private check(): void {
+    if (!this.running || this.checkQueued) {
+      return;
+    }
+    this.checkQueued = true;
+
+    this.connection
+      .run(this.folder, async (imap) => {
+        this.checkQueued = false;
+        // node-imap keeps the selected box's message count current as EXISTS/EXPUNGE arrive
+        const box = this.selectedOn === imap && this.box ? this.box : await this.select(imap);
+        return this.diff(box);
+      })
+      .then((change) => {
+        this.attempts = 0;
+        if (change) {
+          this.listener(change);
+        }
+      })
+      .catch((err) => {
+        this.checkQueued = false;
+        console.error(`Mail watcher for ${this.folder} failed: ${err instanceof Error ? err.message : err}`);
+        this.scheduleReconnect();
+      });
+  }
+
+  /**
+   * Select the folder on a (new) connection and listen for pushed changes
+   */
+  private select(imap: Imap): Promise<Imap.Box> {
+    return new Promise((resolve, reject) => {
+      imap.openBox(this.folder, true, (err, box) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        this.selectedOn = imap;
+        this.box = box;
+        imap.on('mail', () => this.check());
+        imap.on('expunge', () => {
+          this.expunged++;
+          this.check();
+        });
+        resolve(box);
+      });
+    });
+  }
+
+  /**
+   * Work out what changed since the last check. The first check only records a baseline.
+   */
+  private async diff(box: Imap.Box): Promise<MailboxChange | undefined> {
+    const current: FolderState = {
+      uidValidity: box.uidvalidity,
+      uidNext: box.uidnext,
+      exists: box.messages.total,
+    };
+    const previous = this.state;
+    const expunged = this.expunged;
+    this.expunged = 0;
+
+    if (!previous) {
+      this.state = current;
+      return undefined;
+    }
+
+    const reset = previous.uidValidity !== current.uidValidity;
+    let newUids: number[] = [];
+
+    if (!reset) {
+      // node-imap doesn't update UIDNEXT after SELECT, so look for UIDs at or above the last known one
+      newUids = await this.searchFrom(previous.uidNext);
+      if (newUids.length > 0) {
+        current.uidNext = Math.max(current.uidNext, Math.max(...newUids) + 1);
+      }
+    }
+
+    this.state = current;
+
+    // Messages expunged while we weren't connected show up as a smaller count than expected
+    const missing = Math.max(0, previous.exists + newUids.length - expunged - current.exists);
+    const totalExpunged = reset ? 0 : expunged + missing;
+
+    if (!reset && newUids.length === 0 && totalExpunged === 0) {
+      return undefined;
+    }
+
+    return {
+      folder: this.folder,
+      ...current,
+      newMessages: newUids.length > 0 ? await this.client.getSummaries(newUids.reverse(), this.folder) : [],
+      expunged: totalExpunged,
+      reset,
+    };
+  }
+
+  /**
+   * UIDs at or above uid in the selected folder
+   */
+  private searchFrom(uid: number): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.selectedOn) {
+        resolve([]);
+        return;
+      }
+
+      this.selectedOn.search([['UID', `${uid}:*`]], (err, results) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        // "n:*" always matches the highest UID, even when it is below n
+        resolve(results.filter((candidate) => candidate >= uid).sort((a, b) => a - b));
+      });
+    });
+  }
+
+  /**
+   * Reconnect with exponential backoff
+   */
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(1000 * 2 ** this.attempts, this.options.maxBackoff ?? 5 * 60 * 1000);
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.check();
+    }, delay);
+  }
+}
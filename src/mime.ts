@@ -0,0 +1,218 @@
+/**
+ * MIME helpers for IMAP BODYSTRUCTURE
+ *
+ * node-imap returns BODYSTRUCTURE as nested arrays: a multipart node is
+ * [info, child, child, ...] and a leaf node is [part]. These helpers flatten
+ * that tree into parts with resolved filenames so individual parts can be
+ * fetched with BODY[partID] instead of downloading the whole message.
+ */
+
+export interface MimePart {
+  partId: string;
+  type: string;
+  subtype: string;
+  contentType: string;
+  encoding: string;
+  size: number;
+  charset?: string;
+  filename?: string;
+  cid?: string;
+  disposition?: string;
+}
+
+/**
+ * Flatten a BODYSTRUCTURE tree into its leaf parts, in MIME order.
+ * Attached messages (message/rfc822) are kept as single leaf parts.
+ */
+export function flattenStructure(struct: any[] | undefined): MimePart[] {
+  const parts: MimePart[] = [];
+
+  const walk = (node: any[]) => {
+    if (!Array.isArray(node) || node.length === 0) {
+      return;
+    }
+
+    const [head, ...children] = node;
+    if (head && head.partID !== undefined) {
+      parts.push(toMimePart(head));
+      return;
+    }
+
+    for (const child of children) {
+      walk(child);
+    }
+  };
+
+  walk(struct || []);
+  return parts;
+}
+
+/**
+ * Whether a part is an attachment rather than a message body.
+ * Text bodies without a filename and without an attachment disposition are
+ * body parts; everything else (including inline images) counts as attachment,
+ * matching mailparser's notion of attachments.
+ */
+export function isAttachmentPart(part: MimePart): boolean {
+  if (part.disposition === 'attachment') {
+    return true;
+  }
+  if (part.type === 'text' && (part.subtype === 'plain' || part.subtype === 'html')) {
+    return part.filename !== undefined;
+  }
+  return true;
+}
+
+/**
+ * Decode a part body according to its Content-Transfer-Encoding
+ */
+export function decodeTransferEncoding(data: Buffer, encoding: string): Buffer {
+  switch ((encoding || '').toLowerCase()) {
+    case 'base64':
+      return Buffer.from(data.toString('ascii').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(data.toString('binary'));
+    default:
+      return data;
+  }
+}
+
+/**
+ * Estimate the decoded size of a part from its encoded size
+ */
+export function estimateDecodedSize(part: MimePart): number {
+  return part.encoding.toLowerCase() === 'base64' ? Math.floor((part.size * 3) / 4) : part.size;
+}
+
+/**
+ * Decode RFC 2047 encoded words such as =?UTF-8?B?...?=
+ */
+export function decodeMimeWords(value: string): string {
+  return value
+    // Whitespace between adjacent encoded words is not significant
+    .replace(/(=\?[^?]+\?[bqBQ]\?[^?]*\?=)\s+(?==\?[^?]+\?[bqBQ]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([bqBQ])\?([^?]*)\?=/g, (match, charset: string, mode: string, text: string) => {
+      try {
+        const bytes = mode.toUpperCase() === 'B'
+          ? Buffer.from(text, 'base64')
+          : decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return decodeCharset(bytes, charset);
+      } catch {
+        return match;
+      }
+    });
+}
+
+/**
+ * Decode bytes in the given charset, falling back to UTF-8
+ */
+export function decodeCharset(bytes: Buffer, charset: string = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+function toMimePart(raw: any): MimePart {
+  const type = (raw.type || 'application').toLowerCase();
+  const subtype = (raw.subtype || 'octet-stream').toLowerCase();
+  const dispositionParams = raw.disposition?.params || undefined;
+  const filename = getParam(dispositionParams, 'filename') ?? getParam(raw.params, 'name');
+
+  return {
+    partId: String(raw.partID),
+    type,
+    subtype,
+    contentType: `${type}/${subtype}`,
+    encoding: (raw.encoding || '7bit').toLowerCase(),
+    size: Number(raw.size) || 0,
+    charset: getParam(raw.params, 'charset'),
+    filename: filename ? decodeMimeWords(filename) : undefined,
+    cid: raw.id ? String(raw.id).replace(/^<|>$/g, '') : undefined,
+    disposition: raw.disposition?.type ? String(raw.disposition.type).toLowerCase() : undefined,
+  };
+}
+
+/**
+ * Read a MIME parameter, including RFC 2231 extended (name*) and
+ * continued (name*0, name*1*, ...) forms
+ */
+function getParam(params: Record<string, string> | null | undefined, name: string): string | undefined {
+  if (!params) {
+    return undefined;
+  }
+
+  if (params[name] !== undefined && params[name] !== null) {
+    return String(params[name]);
+  }
+
+  if (params[`${name}*`] !== undefined) {
+    return decodeExtendedValue(String(params[`${name}*`]));
+  }
+
+  const segments: string[] = [];
+  let charset: string | undefined;
+  for (let i = 0; ; i++) {
+    const plain = params[`${name}*${i}`];
+    const extended = params[`${name}*${i}*`];
+    if (plain === undefined && extended === undefined) {
+      break;
+    }
+    if (extended !== undefined) {
+      const value = String(extended);
+      if (i === 0) {
+        const match = value.match(/^([^']*)'[^']*'(.*)$/);
+        charset = match?.[1] || 'utf-8';
+        segments.push(match ? match[2] : value);
+      } else {
+        segments.push(value);
+      }
+    } else {
+      segments.push(encodeURIComponent(String(plain)));
+    }
+  }
+
+  if (segments.length === 0) {
+    return undefined;
+  }
+  return decodePercent(segments.join(''), charset || 'utf-8');
+}
+
+/**
+ * Decode an RFC 2231 value of the form charset'language'percent-encoded
+ */
+function decodeExtendedValue(value: string): string {
+  const match = value.match(/^([^']*)'[^']*'(.*)$/);
+  if (!match) {
+    return value;
+  }
+  return decodePercent(match[2], match[1] || 'utf-8');
+}
+
+function decodePercent(value: string, charset: string): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '%' && /^[0-9a-fA-F]{2}$/.test(value.substr(i + 1, 2))) {
+      bytes.push(parseInt(value.substr(i + 1, 2), 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(value[i], 'utf8'));
+    }
+  }
+  return decodeCharset(Buffer.from(bytes), charset);
+}
+
+function decodeQuotedPrintable(value: string): Buffer {
+  const bytes: number[] = [];
+  const input = value.replace(/=\r?\n/g, '');
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '=' && /^[0-9a-fA-F]{2}$/.test(input.substr(i + 1, 2))) {
+      bytes.push(parseInt(input.substr(i + 1, 2), 16));
+      i += 2;
+    } else {
+      bytes.push(input.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
@@ -30,8 +30,7 @@ export class YahooOAuth2 {
       client_id: this.config.clientId,
       redirect_uri: this.config.redirectUri,
       response_type: 'code',
-      scope: 'mail-r cal-r', // mail-r: read mail, cal-r: read calendar
-      // Add mail-w cal-w for Phase 2 (send emails)
+      scope: 'mail-r mail-w cal-r cal-w', // mail-r/mail-w: read and send mail, cal-r/cal-w: read and edit calendar
       ...(state && { state }),
     });
 
@@ -0,0 +1,231 @@
+/**
+ * MCP prompts for everyday mail and calendar workflows
+ *
+ * Each prompt loads the relevant mail or calendar data with the IMAP and
+ * CalDAV clients and embeds it, so the model starts from the same facts the
+ * tools would return.
+ */
+
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { formatEmailText, formatEventText, formatMailboxText, messageUri, eventUri } from './resources.js';
+import type { YahooCalDAVClient } from './caldav-client.js';
+import type { YahooIMAPClient } from './imap-client.js';
+import { quoteSearchValue } from './search-query.js';
+import type { Email } from './types.js';
+
+export interface PromptContext {
+  imap: () => Promise<YahooIMAPClient>;
+  caldav: () => Promise<YahooCalDAVClient>;
+}
+
+type PromptMessage = GetPromptResult['messages'][number];
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'triage_unread_inbox',
+    description: 'Go through unread mail, sort it by what needs attention and suggest actions',
+    arguments: [
+      { name: 'folder', description: 'Folder to triage. Defaults to INBOX.' },
+      { name: 'limit', description: 'Maximum number of unread emails to include. Default: 25' },
+    ],
+  },
+  {
+    name: 'summarize_thread',
+    description: 'Summarize the conversation an email belongs to, including your own replies',
+    arguments: [
+      { name: 'emailId', description: 'UID of any email in the thread', required: true },
+      { name: 'folder', description: 'Folder containing the email. Defaults to INBOX.' },
+    ],
+  },
+  {
+    name: 'draft_reply',
+    description: 'Draft a reply to an email for review before anything is sent',
+    arguments: [
+      { name: 'emailId', description: 'UID of the email to reply to', required: true },
+      { name: 'folder', description: 'Folder containing the email. Defaults to INBOX.' },
+      { name: 'instructions', description: 'What the reply should say, or its tone' },
+    ],
+  },
+  {
+    name: 'prepare_meetings',
+    description: "Brief me on a day's meetings (tomorrow by default) with related recent email",
+    arguments: [
+      { name: 'date', description: 'Day to prepare for (YYYY-MM-DD). Defaults to tomorrow.' },
+      { name: 'calendarId', description: 'Only include this calendar' },
+    ],
+  },
+];
+
+/**
+ * Build the messages for a prompt
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  context: PromptContext
+): Promise<GetPromptResult> {
+  switch (name) {
+    case 'triage_unread_inbox':
+      return triageUnreadInbox(args, context);
+    case 'summarize_thread':
+      return summarizeThread(args, context);
+    case 'draft_reply':
+      return draftReply(args, context);
+    case 'prepare_meetings':
+      return prepareMeetings(args, context);
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
+
+async function triageUnreadInbox(args: Record<string, string>, context: PromptContext): Promise<GetPromptResult> {
+  const folder = args.folder || 'INBOX';
+  const limit = args.limit ? parseInt(args.limit, 10) : 25;
+  if (isNaN(limit) || limit <= 0) {
+    throw new Error(`Invalid limit: ${args.limit}`);
+  }
+
+  const emails = await (await context.imap()).fetchEmails({ folder, limit, unreadOnly: true });
+
+  return {
+    description: `Triage ${emails.length} unread emails in ${folder}`,
+    messages: [
+      text(
+        `Please triage my unread email in ${folder}.\n\n`
+        + 'Group the emails below into: urgent / needs a reply / for information / newsletters and '
+        + 'notifications / likely spam. For each, give a one-line reason and a suggested action '
+        + '(reply, archive, flag, move or delete), quoting its UID.\n\n'
+        + 'Do not change anything yet. When I confirm, use yahoo_mail_set_flags, '
+        + 'yahoo_mail_archive_emails, yahoo_mail_move_emails or yahoo_mail_delete_emails with those UIDs.'
+      ),
+      text(formatMailboxText(folder, emails)),
+    ],
+  };
+}
+
+async function summarizeThread(args: Record<string, string>, context: PromptContext): Promise<GetPromptResult> {
+  const emailId = requireArg(args, 'emailId');
+  const folder = args.folder || 'INBOX';
+  const imap = await context.imap();
+
+  const thread = await imap.getThread(emailId, folder, { limit: 30 });
+  const emails: Email[] = [];
+  for (const message of thread) {
+    emails.push({ ...(await imap.getEmail(message.uid.toString(), message.folder)), folder: message.folder });
+  }
+
+  return {
+    description: `Summarize a thread of ${emails.length} messages`,
+    messages: [
+      text(
+        'Summarize this email conversation. Cover who is involved, what was asked or decided, '
+        + 'any dates or commitments, and what is still open, including anything waiting on me. '
+        + 'The messages are in date order.'
+      ),
+      ...emails.map((email) => resource(messageUri(email.folder || folder, email.uid), formatEmailText(email))),
+    ],
+  };
+}
+
+async function draftReply(args: Record<string, string>, context: PromptContext): Promise<GetPromptResult> {
+  const emailId = requireArg(args, 'emailId');
+  const folder = args.folder || 'INBOX';
+  const email = await (await context.imap()).getEmail(emailId, folder);
+
+  return {
+    description: `Draft a reply to "${email.subject}"`,
+    messages: [
+      text(
+        `Draft a reply to the email below (UID ${emailId} in ${folder}).`
+        + (args.instructions ? `\n\nWhat the reply should say: ${args.instructions}` : '')
+        + '\n\nMatch the language of the original and keep it concise. Show me the draft first. '
+        + 'Once I approve it, save it with yahoo_mail_create_draft or send it with yahoo_mail_reply '
+        + `(emailId "${emailId}", folder "${folder}").`
+      ),
+      resource(messageUri(folder, email.uid), formatEmailText(email)),
+    ],
+  };
+}
+
+async function prepareMeetings(args: Record<string, string>, context: PromptContext): Promise<GetPromptResult> {
+  const day = args.date ? parseDay(args.date) : tomorrow();
+  const next = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+
+  const events = (await (await context.caldav()).fetchEvents({
+    calendarId: args.calendarId || undefined,
+    startDate: day,
+    endDate: next,
+  })).sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const label = day.toDateString();
+  if (events.length === 0) {
+    return {
+      description: `No meetings on ${label}`,
+      messages: [text(`I have no meetings on ${label}. Confirm that and suggest how to use the free day.`)],
+    };
+  }
+
+  // Recent mail mentioning each meeting gives background for the briefing
+  const imap = await context.imap();
+  const messages: PromptMessage[] = [
+    text(
+      `Prepare me for my meetings on ${label}. For each meeting give the time, who is attending, `
+      + 'its purpose, relevant background from the related emails, and questions or materials to prepare. '
+      + 'Point out back-to-back meetings and conflicts.'
+    ),
+  ];
+
+  for (const event of events) {
+    messages.push(resource(eventUri(event.calendarId, event.id), formatEventText(event)));
+
+    if (!event.summary.trim()) {
+      continue;
+    }
+    try {
+      // The summary is text to look for in the subject or body, not a query of its own
+      const summary = quoteSearchValue(event.summary.trim());
+      const related = await imap.searchEmails({ query: `{subject:${summary} body:${summary}}`, limit: 3 });
+      if (related.length > 0) {
+        messages.push(text(`Recent email related to "${event.summary}":\n\n${formatMailboxText('INBOX', related)}`));
+      }
+    } catch (error) {
+      console.error(`Failed to search email for "${event.summary}":`, error);
+    }
+  }
+
+  return {
+    description: `Prepare for ${events.length} meetings on ${label}`,
+    messages,
+  };
+}
+
+function text(content: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text: content } };
+}
+
+function resource(uri: string, content: string): PromptMessage {
+  return { role: 'user', content: { type: 'resource', resource: { uri, mimeType: 'text/plain', text: content } } };
+}
+
+function requireArg(args: Record<string, string>, name: string): string {
+  if (!args[name]) {
+    throw new Error(`Missing required argument: ${name}`);
+  }
+  return args[name];
+}
+
+/**
+ * Parse YYYY-MM-DD as local midnight
+ */
+function parseDay(value: string): Date {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    throw new Error(`Invalid date (expected YYYY-MM-DD): ${value}`);
+  }
+  return new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+}
+
+function tomorrow(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+}
@@ -0,0 +1,535 @@
+/**
+ * Recurrence expansion (RFC 5545 sections 3.3.10 and 3.8.5)
+ *
+ * Turns a recurring event (RRULE, RDATE, EXDATE) and its RECURRENCE-ID
+ * overrides into the occurrences that overlap a time range. Rules are
+ * evaluated in wall time in the event's own time zone, so a weekly 9:00
+ * meeting stays at 9:00 across DST changes. Each occurrence gets a stable
+ * id made of the series UID and its original start, e.g.
+ * 040000008200E00074C5@yahoo.com_20240311T130000Z (a date for all-day
+ * events), and keeps the series UID in masterId.
+ */
+
+import { epochToWallTime, wallTimeToEpoch, type WallClock, type WallTime } from './timezone.js';
+import type { CalendarEvent } from './types.js';
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+type Frequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY' | 'HOURLY' | 'MINUTELY' | 'SECONDLY';
+
+interface WeekdayRule {
+  /** 0 = Sunday */
+  weekday: number;
+  /** 2 = the second, -1 = the last; within the month or year */
+  ordinal?: number;
+}
+
+interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  /** Last allowed start: an instant if UNTIL was given in UTC, else a wall-time epoch */
+  until?: { value: number; utc: boolean };
+  bySecond?: number[];
+  byMinute?: number[];
+  byHour?: number[];
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byYearDay?: number[];
+  byWeekNo?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  weekStart: number;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: Frequency[] = ['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY', 'HOURLY', 'MINUTELY', 'SECONDLY'];
+
+/** Length of the fixed-length periods, which can be skipped arithmetically */
+const PERIOD_LENGTHS: Partial<Record<Frequency, number>> = {
+  WEEKLY: 7 * DAY,
+  DAILY: DAY,
+  HOURLY: HOUR,
+  MINUTELY: MINUTE,
+  SECONDLY: SECOND,
+};
+
+/** Give up on rules that stop matching (BYMONTHDAY=31;BYMONTH=2) after this many periods */
+const MAX_PERIODS = 100000;
+
+/** Occurrences returned per series and range, for rules like FREQ=MINUTELY */
+const MAX_OCCURRENCES = 1000;
+
+/**
+ * Split a recurrence rule (FREQ=WEEKLY;BYDAY=MO,WE) into its parts, names uppercased
+ */
+export function parseRuleParts(rule: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  for (const part of rule.split(';')) {
+    const [name, value] = part.split('=');
+    if (name && value !== undefined) {
+      parts[name.trim().toUpperCase()] = value.trim().toUpperCase();
+    }
+  }
+  return parts;
+}
+
+/**
+ * The occurrences of a recurring event that overlap a range, with overrides
+ * in place of the occurrences they replace, sorted by start
+ */
+export function expandSeries(
+  master: CalendarEvent,
+  overrides: CalendarEvent[],
+  range: DateRange,
+  clock: WallClock
+): CalendarEvent[] {
+  const startWall = wallTimeToEpoch(clock.toWall(master.start));
+  // Occurrences keep the master's wall-clock length, not its exact duration
+  const length = wallTimeToEpoch(clock.toWall(master.end)) - startWall;
+  const excluded = new Set((master.exdates || []).map((date) => date.getTime()));
+  const overridden = new Set(overrides.map((override) => override.recurrenceId?.getTime()));
+
+  const starts = master.rrule
+    ? ruleOccurrences(parseRecurrenceRule(master.rrule), startWall, length, range, clock)
+    : [master.start];
+  starts.push(...(master.rdates || []));
+  starts.sort((a, b) => a.getTime() - b.getTime());
+
+  const occurrences: CalendarEvent[] = [];
+  const seen = new Set<number>();
+  for (const start of starts) {
+    const time = start.getTime();
+    if (seen.has(time) || excluded.has(time) || overridden.has(time)) {
+      continue;
+    }
+    seen.add(time);
+
+    const end = clock.fromWall(epochToWallTime(wallTimeToEpoch(clock.toWall(start)) + length));
+    if (overlaps(start, end, range)) {
+      occurrences.push({
+        ...master,
+        id: occurrenceId(master.id, start, master.allDay),
+        masterId: master.id,
+        start,
+        end,
+        recurrenceId: start,
+        rdates: undefined,
+        exdates: undefined,
+      });
+    }
+  }
+
+  for (const override of overrides) {
+    if (overlaps(override.start, override.end, range)) {
+      occurrences.push(toOccurrence(override));
+    }
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * An override (an event with a RECURRENCE-ID) as an occurrence of its series
+ */
+export function toOccurrence(override: CalendarEvent): CalendarEvent {
+  if (!override.recurrenceId) {
+    return override;
+  }
+  return {
+    ...override,
+    id: occurrenceId(override.id, override.recurrenceId, override.allDay),
+    masterId: override.id,
+  };
+}
+
+/**
+ * The id of one occurrence: the series UID and its original start, in UTC or as a date for all-day events
+ */
+export function occurrenceId(uid: string, recurrenceId: Date, allDay = false): string {
+  const stamp = allDay
+    ? `${recurrenceId.getFullYear()}${pad(recurrenceId.getMonth() + 1)}${pad(recurrenceId.getDate())}`
+    : recurrenceId.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  return `${uid}_${stamp}`;
+}
+
+/**
+ * Split an occurrence id into the series UID and the occurrence's original start
+ */
+export function parseOccurrenceId(id: string): { uid: string; recurrenceId: Date; allDay: boolean } | undefined {
+  const match = id.match(/^(.+)_(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, uid, year, month, day, hour, minute, second] = match;
+  const allDay = hour === undefined;
+  return {
+    uid,
+    recurrenceId: allDay
+      ? new Date(+year, +month - 1, +day)
+      : new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)),
+    allDay,
+  };
+}
+
+function overlaps(start: Date, end: Date, range: DateRange): boolean {
+  if (start >= range.end) {
+    return false;
+  }
+  // A zero-length event overlaps when it starts inside the range
+  return end > range.start || (end.getTime() === start.getTime() && start >= range.start);
+}
+
+function parseRecurrenceRule(value: string): RecurrenceRule {
+  const parts = parseRuleParts(value);
+  const freq = parts.FREQ as Frequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(`Unsupported recurrence frequency: ${parts.FREQ}`);
+  }
+
+  const numbers = (name: string, allowZero = false) => {
+    const list = parts[name]?.split(',').map((item) => parseInt(item, 10)).filter((n) => !isNaN(n) && (allowZero || n !== 0));
+    return list && list.length > 0 ? list : undefined;
+  };
+
+  const byDay = parts.BYDAY?.split(',').flatMap((item) => {
+    const match = item.trim().match(/^([+-]?\d{1,2})?([A-Z]{2})$/);
+    const weekday = match ? WEEKDAYS.indexOf(match[2]) : -1;
+    if (!match || weekday < 0) {
+      return [];
+    }
+    return [{ weekday, ordinal: match[1] ? parseInt(match[1], 10) || undefined : undefined }];
+  });
+
+  let until: RecurrenceRule['until'];
+  const untilMatch = parts.UNTIL?.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (untilMatch) {
+    const [, year, month, day, hour, minute, second, utc] = untilMatch;
+    // A date UNTIL includes that whole day
+    until = hour === undefined
+      ? { value: Date.UTC(+year, +month - 1, +day, 23, 59, 59), utc: false }
+      : { value: Date.UTC(+year, +month - 1, +day, +hour, +minute, +second), utc: utc === 'Z' };
+  }
+
+  const count = parts.COUNT ? parseInt(parts.COUNT, 10) : undefined;
+  const interval = parseInt(parts.INTERVAL || '1', 10);
+  return {
+    freq,
+    interval: interval > 0 ? interval : 1,
+    count: count !== undefined && !isNaN(count) ? count : undefined,
+    until,
+    bySecond: numbers('BYSECOND', true),
+    byMinute: numbers('BYMINUTE', true),
+    byHour: numbers('BYHOUR', true),
+    byDay: byDay && byDay.length > 0 ? byDay : undefined,
+    byMonthDay: numbers('BYMONTHDAY'),
+    byYearDay: numbers('BYYEARDAY'),
+    byWeekNo: numbers('BYWEEKNO'),
+    byMonth: numbers('BYMONTH'),
+    bySetPos: numbers('BYSETPOS'),
+    weekStart: parts.WKST && WEEKDAYS.includes(parts.WKST) ? WEEKDAYS.indexOf(parts.WKST) : 1,
+  };
+}
+
+/**
+ * Starts of the rule's occurrences that may overlap the range. COUNT and
+ * UNTIL are applied from DTSTART, which is always the first occurrence.
+ */
+function ruleOccurrences(rule: RecurrenceRule, startWall: number, length: number, range: DateRange, clock: WallClock): Date[] {
+  const fromWall = wallTimeToEpoch(clock.toWall(range.start)) - length - DAY;
+  const toWall = wallTimeToEpoch(clock.toWall(range.end)) + DAY;
+  // Without COUNT, periods that end before the range need not be generated
+  const skipTo = rule.count === undefined ? fromWall : -Infinity;
+
+  const starts: Date[] = [];
+  let count = 0;
+  for (const wall of ruleWallTimes(rule, startWall, skipTo, toWall)) {
+    if (rule.until && !rule.until.utc && wall > rule.until.value) {
+      break;
+    }
+    const start = clock.fromWall(epochToWallTime(wall));
+    if (rule.until?.utc && start.getTime() > rule.until.value) {
+      break;
+    }
+    if (rule.count !== undefined && ++count > rule.count) {
+      break;
+    }
+    if (start >= range.end) {
+      break;
+    }
+    if (wall >= fromWall) {
+      starts.push(start);
+      if (starts.length >= MAX_OCCURRENCES) {
+        console.error(`Stopped expanding ${rule.freq} recurrence after ${MAX_OCCURRENCES} occurrences`);
+        break;
+      }
+    }
+  }
+  return starts;
+}
+
+/**
+ * The rule's start wall times in ascending order, beginning with DTSTART.
+ * Periods are generated from skipTo and no further than stopWall.
+ */
+function* ruleWallTimes(rule: RecurrenceRule, startWall: number, skipTo: number, stopWall: number): Generator<number> {
+  yield startWall;
+
+  const start = epochToWallTime(startWall);
+  const expanded = withDefaults(rule, start);
+  const startDay = Math.floor(startWall / DAY);
+  const periodLength = PERIOD_LENGTHS[rule.freq];
+
+  let first: number;
+  switch (rule.freq) {
+    case 'YEARLY':
+      first = start.year;
+      break;
+    case 'MONTHLY':
+      first = start.year * 12 + start.month - 1;
+      break;
+    case 'WEEKLY':
+      first = (startDay - ((weekdayOf(startDay) - rule.weekStart + 7) % 7)) * DAY;
+      break;
+    default:
+      first = Math.floor(startWall / periodLength!) * periodLength!;
+  }
+
+  let step = rule.interval;
+  if (periodLength) {
+    step *= periodLength;
+    // Jump whole intervals to the period before the range
+    if (skipTo > first) {
+      first += Math.max(0, Math.floor((skipTo - first) / step) - 1) * step;
+    }
+  }
+
+  for (let period = first, periods = 0; periods < MAX_PERIODS; period += step, periods++) {
+    let periodStart: number;
+    let candidates: number[];
+    switch (rule.freq) {
+      case 'YEARLY': {
+        periodStart = Date.UTC(period, 0, 1);
+        const days: number[] = [];
+        for (let day = periodStart / DAY; day < Date.UTC(period + 1, 0, 1) / DAY; day++) {
+          if (matchesDay(day, expanded)) {
+            days.push(day);
+          }
+        }
+        candidates = dayTimes(days, expanded, start);
+        break;
+      }
+      case 'MONTHLY': {
+        const year = Math.floor(period / 12);
+        const month = period % 12;
+        periodStart = Date.UTC(year, month, 1);
+        const days: number[] = [];
+        for (let day = periodStart / DAY; day < Date.UTC(year, month + 1, 1) / DAY; day++) {
+          if (matchesDay(day, expanded)) {
+            days.push(day);
+          }
+        }
+        candidates = dayTimes(days, expanded, start);
+        break;
+      }
+      case 'WEEKLY': {
+        periodStart = period;
+        const days: number[] = [];
+        for (let day = period / DAY; day < period / DAY + 7; day++) {
+          if (matchesDay(day, expanded)) {
+            days.push(day);
+          }
+        }
+        candidates = dayTimes(days, expanded, start);
+        break;
+      }
+      case 'DAILY':
+        periodStart = period;
+        candidates = matchesDay(period / DAY, expanded) ? dayTimes([period / DAY], expanded, start) : [];
+        break;
+      default:
+        periodStart = period;
+        candidates = subDailyTimes(period, expanded, start);
+    }
+
+    if (periodStart > stopWall) {
+      return;
+    }
+    for (const candidate of selectPositions(candidates, rule.bySetPos)) {
+      if (candidate > startWall) {
+        yield candidate;
+      }
+    }
+  }
+}
+
+/**
+ * Fill in the day a rule without BYxxx day parts repeats on, taken from DTSTART
+ */
+function withDefaults(rule: RecurrenceRule, start: WallTime): RecurrenceRule {
+  if (rule.byWeekNo || rule.byYearDay || rule.byMonthDay || rule.byDay) {
+    return rule;
+  }
+  switch (rule.freq) {
+    case 'YEARLY':
+      return { ...rule, byMonth: rule.byMonth || [start.month], byMonthDay: [start.day] };
+    case 'MONTHLY':
+      return { ...rule, byMonthDay: [start.day] };
+    case 'WEEKLY':
+      return { ...rule, byDay: [{ weekday: weekdayOf(Math.floor(wallTimeToEpoch(start) / DAY)) }] };
+    default:
+      return rule;
+  }
+}
+
+/**
+ * Whether a day (days since 1970-01-01) passes the rule's day parts
+ */
+function matchesDay(day: number, rule: RecurrenceRule): boolean {
+  const date = new Date(day * DAY);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const monthDay = date.getUTCDate();
+
+  if (rule.byMonth && !rule.byMonth.includes(month)) {
+    return false;
+  }
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (rule.byMonthDay && !rule.byMonthDay.some((n) => n === monthDay || n === monthDay - daysInMonth - 1)) {
+    return false;
+  }
+
+  const yearStart = Date.UTC(year, 0, 1) / DAY;
+  const daysInYear = Date.UTC(year + 1, 0, 1) / DAY - yearStart;
+  const yearDay = day - yearStart + 1;
+  if (rule.byYearDay && !rule.byYearDay.some((n) => n === yearDay || n === yearDay - daysInYear - 1)) {
+    return false;
+  }
+
+  if (rule.byWeekNo && !matchesWeekNo(day, year, rule)) {
+    return false;
+  }
+
+  if (rule.byDay) {
+    // Ordinals count within the month for MONTHLY and YEARLY;BYMONTH, else within the year
+    const inMonth = rule.freq === 'MONTHLY' || (rule.freq === 'YEARLY' && rule.byMonth !== undefined);
+    const useOrdinal = (rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') && !rule.byWeekNo;
+    const position = inMonth ? monthDay : yearDay;
+    const total = inMonth ? daysInMonth : daysInYear;
+    const weekday = date.getUTCDay();
+    const matches = rule.byDay.some((entry) => entry.weekday === weekday && (
+      !useOrdinal
+      || entry.ordinal === undefined
+      || entry.ordinal === Math.floor((position - 1) / 7) + 1
+      || entry.ordinal === -(Math.floor((total - position) / 7) + 1)
+    ));
+    if (!matches) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * BYWEEKNO: week 1 is the first week, starting on WKST, with at least four days in the year
+ */
+function matchesWeekNo(day: number, year: number, rule: RecurrenceRule): boolean {
+  const weekOneStart = (y: number) => {
+    const janFirst = Date.UTC(y, 0, 1) / DAY;
+    const offset = (weekdayOf(janFirst) - rule.weekStart + 7) % 7;
+    return offset > 3 ? janFirst - offset + 7 : janFirst - offset;
+  };
+  const first = weekOneStart(year);
+  const weeks = (weekOneStart(year + 1) - first) / 7;
+  const week = Math.floor((day - first) / 7) + 1;
+  if (week < 1 || week > weeks) {
+    return false;
+  }
+  return rule.byWeekNo!.some((n) => n === week || n === week - weeks - 1);
+}
+
+/**
+ * The start times on each day: every combination of BYHOUR, BYMINUTE and BYSECOND, defaulting to DTSTART's
+ */
+function dayTimes(days: number[], rule: RecurrenceRule, start: WallTime): number[] {
+  const hours = sorted(rule.byHour || [start.hour]);
+  const minutes = sorted(rule.byMinute || [start.minute]);
+  const seconds = sorted(rule.bySecond || [start.second]);
+  const times: number[] = [];
+  for (const day of days) {
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        for (const second of seconds) {
+          times.push(day * DAY + hour * HOUR + minute * MINUTE + second * SECOND);
+        }
+      }
+    }
+  }
+  return times;
+}
+
+/**
+ * Start times in one HOURLY, MINUTELY or SECONDLY period: the coarser BY parts
+ * limit, the finer ones expand
+ */
+function subDailyTimes(period: number, rule: RecurrenceRule, start: WallTime): number[] {
+  const wall = epochToWallTime(period);
+  if (!matchesDay(Math.floor(period / DAY), rule) || (rule.byHour && !rule.byHour.includes(wall.hour))) {
+    return [];
+  }
+
+  if (rule.freq === 'HOURLY') {
+    const times: number[] = [];
+    for (const minute of sorted(rule.byMinute || [start.minute])) {
+      for (const second of sorted(rule.bySecond || [start.second])) {
+        times.push(period + minute * MINUTE + second * SECOND);
+      }
+    }
+    return times;
+  }
+
+  if (rule.byMinute && !rule.byMinute.includes(wall.minute)) {
+    return [];
+  }
+  if (rule.freq === 'MINUTELY') {
+    return sorted(rule.bySecond || [start.second]).map((second) => period + second * SECOND);
+  }
+  return !rule.bySecond || rule.bySecond.includes(wall.second) ? [period] : [];
+}
+
+/**
+ * BYSETPOS: pick the n-th (or n-th from last) candidates of a period
+ */
+function selectPositions(candidates: number[], positions: number[] | undefined): number[] {
+  if (!positions) {
+    return candidates;
+  }
+  const selected = positions
+    .map((position) => (position > 0 ? candidates[position - 1] : candidates[candidates.length + position]))
+    .filter((candidate): candidate is number => candidate !== undefined);
+  return sorted([...new Set(selected)]);
+}
+
+function weekdayOf(day: number): number {
+  // 1970-01-01 was a Thursday
+  return (((day + 4) % 7) + 7) % 7;
+}
+
+function sorted(values: number[]): number[] {
+  return [...values].sort((a, b) => a - b);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
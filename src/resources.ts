@@ -0,0 +1,171 @@
+/**
+ * MCP resource URIs and text renderings
+ *
+ * Mail and calendar objects are addressed as:
+ *   yahoo-mail://{folder}                            a mailbox
+ *   yahoo-mail://{folder}/{uid}                      a message
+ *   yahoo-mail://{folder}/{uid}/attachments/{index}  an attachment
+ *   yahoo-calendar://{calendarId}/{eventId}          a calendar event
+ * Each segment is percent-encoded, so folder names containing the hierarchy
+ * delimiter and event UIDs containing "/" stay a single segment.
+ */
+
+import { bodyText } from './body.js';
+import { formatAddress } from './compose.js';
+import type { CalendarEvent, Email, EmailAddress, EventAttendee } from './types.js';
+
+export type ResourceRef =
+  | { kind: 'mailbox'; folder: string }
+  | { kind: 'message'; folder: string; uid: number }
+  | { kind: 'attachment'; folder: string; uid: number; index: number }
+  | { kind: 'event'; calendarId: string; eventId: string };
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'yahoo-mail://{folder}',
+    name: 'Mailbox',
+    description: 'The most recent messages in a mail folder (e.g. yahoo-mail://INBOX)',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'yahoo-mail://{folder}/{uid}',
+    name: 'Email message',
+    description: 'An email as readable text (text/plain) and as its raw source (message/rfc822)',
+    mimeType: 'message/rfc822',
+  },
+  {
+    uriTemplate: 'yahoo-mail://{folder}/{uid}/attachments/{index}',
+    name: 'Email attachment',
+    description: 'A single attachment of an email, by its index in the attachment list',
+  },
+  {
+    uriTemplate: 'yahoo-calendar://{calendarId}/{eventId}',
+    name: 'Calendar event',
+    description: 'A calendar event as readable text (text/plain) and as iCalendar (text/calendar)',
+    mimeType: 'text/calendar',
+  },
+];
+
+export function mailboxUri(folder: string): string {
+  return `yahoo-mail://${encodeURIComponent(folder)}`;
+}
+
+export function messageUri(folder: string, uid: number): string {
+  return `${mailboxUri(folder)}/${uid}`;
+}
+
+export function attachmentUri(folder: string, uid: number, index: number): string {
+  return `${messageUri(folder, uid)}/attachments/${index}`;
+}
+
+export function eventUri(calendarId: string, eventId: string): string {
+  return `yahoo-calendar://${encodeURIComponent(calendarId)}/${encodeURIComponent(eventId)}`;
+}
+
+/**
+ * Parse a resource URI into what it points at
+ */
+export function parseResourceUri(uri: string): ResourceRef {
+  const match = uri.match(/^(yahoo-mail|yahoo-calendar):\/\/(.+)$/);
+  if (!match) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  let segments: string[];
+  try {
+    segments = match[2].replace(/\/$/, '').split('/').map(decodeURIComponent);
+  } catch {
+    throw new Error(`Malformed resource URI: ${uri}`);
+  }
+
+  const isUid = (value: string | undefined) => value !== undefined && /^\d+$/.test(value);
+
+  if (match[1] === 'yahoo-calendar') {
+    if (segments.length === 2 && segments[0] && segments[1]) {
+      return { kind: 'event', calendarId: segments[0], eventId: segments[1] };
+    }
+  } else if (segments.length === 1 && segments[0]) {
+    return { kind: 'mailbox', folder: segments[0] };
+  } else if (segments.length === 2 && isUid(segments[1])) {
+    return { kind: 'message', folder: segments[0], uid: parseInt(segments[1], 10) };
+  } else if (segments.length === 4 && isUid(segments[1]) && segments[2] === 'attachments' && isUid(segments[3])) {
+    return {
+      kind: 'attachment',
+      folder: segments[0],
+      uid: parseInt(segments[1], 10),
+      index: parseInt(segments[3], 10),
+    };
+  }
+
+  throw new Error(`Unsupported resource URI: ${uri}`);
+}
+
+/**
+ * Render an email as plain text: the main headers, the body and an attachment list
+ */
+export function formatEmailText(email: Email): string {
+  const lines = [
+    `From: ${formatAddresses(email.from)}`,
+    `To: ${formatAddresses(email.to)}`,
+    ...(email.cc?.length ? [`Cc: ${formatAddresses(email.cc)}`] : []),
+    `Date: ${email.date.toISOString()}`,
+    `Subject: ${email.subject}`,
+    ...(email.folder ? [`Folder: ${email.folder}`] : []),
+    `UID: ${email.uid}`,
+  ];
+
+  if (email.attachments?.length) {
+    lines.push(`Attachments: ${email.attachments.map((att) => `${att.filename} (${att.size} bytes)`).join(', ')}`);
+  }
+
+  return `${lines.join('\n')}\n\n${bodyText(email)}\n`;
+}
+
+/**
+ * Render a mailbox listing as plain text, one message per block
+ */
+export function formatMailboxText(folder: string, emails: Email[]): string {
+  if (emails.length === 0) {
+    return `${folder}: no messages\n`;
+  }
+
+  const blocks = emails.map((email) => [
+    `[${email.uid}] ${email.flags?.includes('\\Seen') ? '' : '(unread) '}${email.subject}`,
+    `  From: ${formatAddresses(email.from)} | ${email.date.toISOString()}`,
+    ...(email.snippet ? [`  ${email.snippet}`] : []),
+    `  ${messageUri(folder, email.uid)}`,
+  ].join('\n'));
+
+  return `${folder}: ${emails.length} most recent messages\n\n${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Render a calendar event as plain text
+ */
+export function formatEventText(event: CalendarEvent): string {
+  const lines = [
+    `Summary: ${event.summary}`,
+    ...(event.allDay
+      ? [`Date: ${event.start.toDateString()}${event.end.getTime() - event.start.getTime() > 86400000 ? ` to ${new Date(event.end.getTime() - 1).toDateString()}` : ''} (all day)`]
+      : [`Start: ${event.start.toISOString()}`, `End: ${event.end.toISOString()}`]),
+    ...(event.timezone ? [`Time zone: ${event.timezone}`] : []),
+    ...(event.rrule ? [`Repeats: ${event.rrule}`] : []),
+    ...(event.masterId ? [`Occurrence of: ${eventUri(event.calendarId, event.masterId)}`] : []),
+    ...(event.location ? [`Location: ${event.location}`] : []),
+    ...(event.organizer ? [`Organizer: ${formatAddress(event.organizer)}`] : []),
+    ...(event.attendees?.length ? [`Attendees: ${event.attendees.map(formatAttendee).join(', ')}`] : []),
+    `Status: ${event.status}`,
+  ];
+
+  return `${lines.join('\n')}${event.description ? `\n\n${event.description}` : ''}\n`;
+}
+
+function formatAttendee(attendee: EventAttendee): string {
+  const details = [attendee.role === 'OPT-PARTICIPANT' ? 'optional' : '', attendee.partStat?.toLowerCase().replace('needs-action', 'no response')]
+    .filter(Boolean);
+  return `${formatAddress(attendee)}${details.length ? ` (${details.join(', ')})` : ''}`;
+}
+
+function formatAddresses(addresses: EmailAddress[]): string {
+  return addresses.map(formatAddress).join(', ');
+}
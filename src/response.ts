@@ -0,0 +1,321 @@
+/**
+ * Tool response shaping
+ *
+ * Every tool accepts the same three options, applied to its result after
+ * the tool has run:
+ *   fields        keep only these fields of each returned record (email,
+ *                 event, calendar, folder...); dotted paths reach nested
+ *                 fields, e.g. "attachments.filename"
+ *   maxBodyChars  cut long text fields (body, text, html, description) and
+ *                 say so in a `truncated` list, with how to get the rest
+ *   format        json (pretty-printed, the default), compact (minified,
+ *                 empty values dropped) or markdown
+ */
+
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type ResponseFormat = 'json' | 'markdown' | 'compact';
+
+export interface ResponseOptions {
+  fields?: string[];
+  /** 0 disables truncation */
+  maxBodyChars: number;
+  format: ResponseFormat;
+}
+
+interface Truncation {
+  field: string;
+  shown: number;
+  total: number;
+}
+
+type TextContent = Extract<CallToolResult['content'][number], { type: 'text' }>;
+
+/** Fields holding free text that maxBodyChars applies to */
+const BODY_FIELDS = new Set(['body', 'text', 'html', 'description']);
+
+/** Top-level result fields that are never records and never filtered by fields */
+const META_FIELDS = new Set(['success', 'count', 'nextCursor', 'truncated']);
+
+/** Fields tried in order for a record's heading in markdown output */
+const TITLE_FIELDS = ['subject', 'summary', 'name', 'filename', 'folder'];
+
+const DEFAULT_MAX_BODY_CHARS = 20000;
+
+const RESPONSE_OPTION_PROPERTIES = {
+  fields: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only return these fields of each result record, e.g. ["subject", "from", "date"]. Dotted paths select nested fields ("attachments.filename"). id and uid are always returned.',
+  },
+  maxBodyChars: {
+    type: 'number',
+    description: `Cut body, text, html and description fields longer than this many characters; cut fields are listed under "truncated". 0 returns everything. Default: ${DEFAULT_MAX_BODY_CHARS}`,
+  },
+  format: {
+    type: 'string',
+    enum: ['json', 'markdown', 'compact'],
+    description: 'Response format: json (pretty-printed), compact (minified JSON without empty fields) or markdown. Default: json',
+  },
+};
+
+/**
+ * Add the response options to each tool's input schema
+ */
+export function withResponseOptions(tools: Tool[]): Tool[] {
+  return tools.map((tool) => ({
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, ...RESPONSE_OPTION_PROPERTIES },
+    },
+  }));
+}
+
+/**
+ * Read and validate the response options from tool arguments
+ */
+export function parseResponseOptions(args: Record<string, unknown> | undefined): ResponseOptions {
+  const fields = args?.fields;
+  if (fields !== undefined && (!Array.isArray(fields) || fields.some((field) => typeof field !== 'string'))) {
+    throw new Error('fields must be an array of field names');
+  }
+
+  const maxBodyChars = args?.maxBodyChars ?? DEFAULT_MAX_BODY_CHARS;
+  if (typeof maxBodyChars !== 'number' || !Number.isInteger(maxBodyChars) || maxBodyChars < 0) {
+    throw new Error(`Invalid maxBodyChars: ${maxBodyChars}. Use a whole number of characters, or 0 for no limit.`);
+  }
+
+  const format = args?.format ?? 'json';
+  if (format !== 'json' && format !== 'markdown' && format !== 'compact') {
+    throw new Error(`Invalid format: ${format}. Use json, markdown or compact.`);
+  }
+
+  return { fields: fields as string[] | undefined, maxBodyChars, format };
+}
+
+/**
+ * Shape a tool result and render it as text content
+ */
+export function formatResponse(result: Record<string, unknown>, options: ResponseOptions): TextContent {
+  const truncated: Truncation[] = [];
+  const shaped: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(result)) {
+    if (META_FIELDS.has(key) || value === null || typeof value !== 'object') {
+      shaped[key] = value;
+      continue;
+    }
+    const selected = options.fields ? selectFields(value, options.fields) : value;
+    shaped[key] = options.maxBodyChars > 0 ? truncateBodies(selected, key, options.maxBodyChars, truncated) : selected;
+  }
+
+  if (truncated.length > 0) {
+    shaped.truncated = {
+      fields: truncated,
+      hint: `Call again with maxBodyChars set to at least ${Math.max(...truncated.map((entry) => entry.total))}, `
+        + 'or 0, to get the full content.',
+    };
+  }
+
+  switch (options.format) {
+    case 'compact':
+      return { type: 'text', text: JSON.stringify(dropEmpty(shaped)) };
+    case 'markdown':
+      return { type: 'text', text: toMarkdown(shaped) };
+    default:
+      return { type: 'text', text: JSON.stringify(shaped, null, 2) };
+  }
+}
+
+/**
+ * Keep only the given field paths of a record or of each record in an array
+ */
+function selectFields(value: unknown, fields: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => selectFields(item, fields));
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const selected: Record<string, unknown> = {};
+  for (const key of ['id', 'uid']) {
+    if (key in record) {
+      selected[key] = record[key];
+    }
+  }
+
+  const nested = new Map<string, string[]>();
+  for (const field of fields) {
+    const [head, ...rest] = field.split('.');
+    if (!(head in record)) {
+      continue;
+    }
+    if (rest.length === 0) {
+      selected[head] = record[head];
+      nested.delete(head);
+    } else if (!(head in selected) || nested.has(head)) {
+      nested.set(head, [...(nested.get(head) || []), rest.join('.')]);
+    }
+  }
+  for (const [head, paths] of nested) {
+    selected[head] = selectNested(record[head], paths);
+  }
+
+  return selected;
+}
+
+function selectNested(value: unknown, paths: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => selectNested(item, paths));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const record = value as Record<string, unknown>;
+  const selected: Record<string, unknown> = {};
+  for (const path of paths) {
+    const [head, ...rest] = path.split('.');
+    if (head in record) {
+      selected[head] = rest.length === 0 ? record[head] : selectNested(record[head], [rest.join('.')]);
+    }
+  }
+  return selected;
+}
+
+/**
+ * Cut body fields longer than max characters, recording each cut with its path
+ */
+function truncateBodies(value: unknown, path: string, max: number, truncated: Truncation[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => truncateBodies(item, `${path}[${index}]`, max, truncated));
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value as Record<string, unknown>)) {
+    const fieldPath = `${path}.${key}`;
+    if (BODY_FIELDS.has(key) && typeof field === 'string' && field.length > max) {
+      truncated.push({ field: fieldPath, shown: max, total: field.length });
+      result[key] = `${field.slice(0, max)}\n[… truncated: ${field.length - max} more characters]`;
+    } else {
+      result[key] = truncateBodies(field, fieldPath, max, truncated);
+    }
+  }
+  return result;
+}
+
+/**
+ * Drop null, undefined, empty strings and empty arrays
+ */
+function dropEmpty(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(dropEmpty);
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value as Record<string, unknown>)) {
+    if (field === null || field === undefined || field === '' || (Array.isArray(field) && field.length === 0)) {
+      continue;
+    }
+    result[key] = dropEmpty(field);
+  }
+  return result;
+}
+
+/**
+ * Render a result as markdown: scalar fields as a list, each record as a section
+ */
+function toMarkdown(result: Record<string, unknown>): string {
+  const summary: string[] = [];
+  const sections: string[] = [];
+
+  for (const [key, value] of Object.entries(result)) {
+    if (value === undefined || value === null || key === 'success') {
+      continue;
+    }
+    if (key === 'truncated') {
+      const { fields, hint } = value as { fields: Truncation[]; hint: string };
+      sections.push(`> Truncated: ${fields.map((entry) => `${entry.field} (${entry.shown} of ${entry.total} characters)`).join(', ')}. ${hint}`);
+    } else if (Array.isArray(value) && value.some(isRecord)) {
+      sections.push(`## ${label(key)} (${value.length})`);
+      value.forEach((item, index) => sections.push(recordToMarkdown(item, `${index + 1}`)));
+    } else if (isRecord(value) && !isAddress(value)) {
+      sections.push(recordToMarkdown(value, label(key)));
+    } else {
+      summary.push(`- **${label(key)}:** ${inline(value)}`);
+    }
+  }
+
+  return [summary.join('\n'), ...sections].filter(Boolean).join('\n\n');
+}
+
+function recordToMarkdown(value: unknown, fallbackTitle: string): string {
+  if (!isRecord(value)) {
+    return `- ${inline(value)}`;
+  }
+
+  const titleField = TITLE_FIELDS.find((field) => typeof value[field] === 'string' && value[field]);
+  const lines = [`### ${titleField ? value[titleField] : fallbackTitle}`];
+  const blocks: string[] = [];
+
+  for (const [key, field] of Object.entries(value)) {
+    if (key === titleField || field === undefined || field === null || field === '') {
+      continue;
+    }
+    if (BODY_FIELDS.has(key) && typeof field === 'string') {
+      blocks.push(`**${label(key)}:**\n\n${field.trim()}`);
+    } else if (Array.isArray(field) && field.some((item) => isRecord(item) && !isAddress(item))) {
+      lines.push(`- **${label(key)}:**`);
+      for (const item of field) {
+        lines.push(`  - ${inline(item)}`);
+      }
+    } else {
+      lines.push(`- **${label(key)}:** ${inline(field)}`);
+    }
+  }
+
+  return [lines.join('\n'), ...blocks].join('\n\n');
+}
+
+/**
+ * One-line rendering of a field value: addresses as "Name <address>", records as key=value pairs
+ */
+function inline(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '(none)' : value.map(inline).join(', ');
+  }
+  if (isRecord(value)) {
+    if (isAddress(value)) {
+      return value.name ? `${value.name} <${value.address}>` : String(value.address);
+    }
+    return Object.entries(value)
+      .filter(([, field]) => field !== undefined && field !== null)
+      .map(([key, field]) => `${key}: ${inline(field)}`)
+      .join('; ');
+  }
+  return String(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isAddress(value: unknown): value is { name?: string; address: string } {
+  return isRecord(value) && typeof value.address === 'string' && Object.keys(value).every((key) => key === 'name' || key === 'address');
+}
+
+/**
+ * "nextCursor" -> "Next cursor"
+ */
+function label(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,454 @@
+/**
+ * Offline full-text index over the local message cache
+ *
+ * Indexes the subject, sender and recipients, attachment filenames and body
+ * of every cached message (the snippet when the body was never downloaded)
+ * and ranks matches with BM25F: each field's term frequency and length are
+ * weighted, so a word in the subject counts for more than one in the body.
+ *
+ * Text is split into words with Intl.Segmenter, which uses dictionary-based
+ * word breaking for scripts written without spaces (Chinese, Japanese, Thai),
+ * then lowercased with diacritics removed so "café" matches "cafe". Term
+ * positions are kept for phrase queries.
+ *
+ * The index is saved next to the cache and brought up to date from it before
+ * each search, without any network access.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { bodyText } from './body.js';
+import type { MailCache } from './mail-cache.js';
+import type { Email, EmailAddress } from './types.js';
+
+export interface LocalSearchOptions {
+  /** Only search these folders */
+  folders?: string[];
+  /** Maximum number of hits. Default: 20 */
+  limit?: number;
+}
+
+export interface LocalSearchHit {
+  folder: string;
+  uid: number;
+  subject: string;
+  from: string;
+  date: Date;
+  score: number;
+  /** Best matching passage with matches wrapped in ** */
+  snippet: string;
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedDocument {
+  folder: string;
+  uidValidity: number;
+  uid: number;
+  subject: string;
+  from: string;
+  date: Date;
+  /** Weighted length, the sum of each field's length times its weight */
+  length: number;
+  /** Indexed from the full body rather than the snippet */
+  hasBody: boolean;
+}
+
+interface Posting {
+  /** Weighted term frequency */
+  tf: number;
+  positions: number[];
+}
+
+interface IndexFile {
+  version: number;
+  nextId: number;
+  documents: Array<[number, IndexedDocument]>;
+  postings: Array<[string, Array<[number, number, number[]]>]>;
+}
+
+const INDEX_VERSION = 2;
+
+/** BM25 parameters */
+const K1 = 1.2;
+const B = 0.75;
+
+/** Field weights for BM25F */
+const FIELD_WEIGHTS = {
+  subject: 3,
+  from: 2,
+  to: 1.5,
+  filenames: 1.5,
+  body: 1,
+};
+
+/** Position gap between fields so phrases never match across them */
+const FIELD_GAP = 100;
+
+/** Words of context around the best passage in a snippet */
+const SNIPPET_WORDS = 30;
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+export class SearchIndex {
+  private cache: MailCache;
+  private file: string;
+  private documents = new Map<number, IndexedDocument>();
+  private postings = new Map<string, Map<number, Posting>>();
+  private nextId = 1;
+  private loaded = false;
+
+  constructor(cache: MailCache) {
+    this.cache = cache;
+    this.file = path.join(cache.dir, 'index.json');
+  }
+
+  /**
+   * Bring the index up to date with the cache: index new messages and bodies
+   * downloaded since, drop messages that left the cache. Returns the number of
+   * documents added or removed.
+   */
+  refresh(): number {
+    this.load();
+
+    const current = new Map<string, { folder: string; uidValidity: number; message: Email }>();
+    for (const folder of this.cache.listFolders()) {
+      const state = this.cache.loadFolder(folder);
+      for (const message of state?.messages || []) {
+        current.set(documentKey(folder, state!.uidValidity, message.uid), {
+          folder,
+          uidValidity: state!.uidValidity,
+          message,
+        });
+      }
+    }
+
+    const indexed = new Map<string, number>();
+    const stale = new Set<number>();
+    for (const [id, doc] of this.documents) {
+      const key = documentKey(doc.folder, doc.uidValidity, doc.uid);
+      const entry = current.get(key);
+      if (!entry || (!doc.hasBody && this.cache.hasBody(entry.folder, entry.uidValidity, entry.message.uid))) {
+        stale.add(id);
+      } else {
+        indexed.set(key, id);
+      }
+    }
+    this.remove(stale);
+
+    let added = 0;
+    for (const [key, { folder, uidValidity, message }] of current) {
+      if (!indexed.has(key)) {
+        const body = this.cache.getBody(folder, uidValidity, message.uid);
+        this.add(folder, uidValidity, message, body);
+        added++;
+      }
+    }
+
+    const changes = added + stale.size;
+    if (changes > 0) {
+      this.save();
+    }
+    return changes;
+  }
+
+  /**
+   * Search the index. Words must all match; "quoted phrases" must appear in
+   * order; -word and -"phrase" exclude messages containing them. Hits are
+   * ranked by BM25.
+   */
+  search(query: string, options: LocalSearchOptions = {}): LocalSearchHit[] {
+    this.refresh();
+
+    const { limit = 20 } = options;
+    const { required, phrases, excluded } = parseQuery(query);
+    if (required.length === 0 && phrases.length === 0) {
+      throw new Error('The query has no words to search for');
+    }
+
+    const terms = [...new Set([...required, ...phrases.flat()])];
+    let candidates: Set<number> | undefined;
+    for (const term of terms) {
+      const docs = new Set(this.postings.get(term)?.keys() || []);
+      candidates = candidates ? new Set([...candidates].filter((id) => docs.has(id))) : docs;
+    }
+
+    const folders = options.folders ? new Set(options.folders) : undefined;
+    const averageLength = [...this.documents.values()].reduce((sum, doc) => sum + doc.length, 0)
+      / Math.max(1, this.documents.size);
+
+    const hits: Array<{ id: number; score: number }> = [];
+    for (const id of candidates || []) {
+      const doc = this.documents.get(id)!;
+      if (folders && !folders.has(doc.folder)) {
+        continue;
+      }
+      if (excluded.some((phrase) => this.containsPhrase(id, phrase))) {
+        continue;
+      }
+      if (!phrases.every((phrase) => this.containsPhrase(id, phrase))) {
+        continue;
+      }
+
+      let score = 0;
+      for (const term of terms) {
+        const postings = this.postings.get(term)!;
+        const tf = postings.get(id)!.tf;
+        const idf = Math.log(1 + (this.documents.size - postings.size + 0.5) / (postings.size + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+      }
+      hits.push({ id, score });
+    }
+
+    hits.sort((a, b) => b.score - a.score || this.documents.get(b.id)!.date.getTime() - this.documents.get(a.id)!.date.getTime());
+
+    return hits.slice(0, limit).map(({ id, score }) => {
+      const doc = this.documents.get(id)!;
+      return {
+        folder: doc.folder,
+        uid: doc.uid,
+        subject: doc.subject,
+        from: doc.from,
+        date: doc.date,
+        score: Math.round(score * 1000) / 1000,
+        snippet: this.snippet(doc, terms),
+      };
+    });
+  }
+
+  private add(folder: string, uidValidity: number, summary: Email, body?: Email): void {
+    const id = this.nextId++;
+    const email = body || summary;
+    const fields: Array<[keyof typeof FIELD_WEIGHTS, string]> = [
+      ['subject', summary.subject],
+      ['from', formatAddresses(summary.from)],
+      ['to', formatAddresses([...(summary.to || []), ...(summary.cc || [])])],
+      ['filenames', (email.attachments || []).map((attachment) => attachment.filename).join(' ')],
+      ['body', documentText(email)],
+    ];
+
+    let position = 0;
+    let length = 0;
+    for (const [field, text] of fields) {
+      const tokens = tokenize(text);
+      length += tokens.length * FIELD_WEIGHTS[field];
+      for (const token of tokens) {
+        let postings = this.postings.get(token.term);
+        if (!postings) {
+          postings = new Map();
+          this.postings.set(token.term, postings);
+        }
+        let posting = postings.get(id);
+        if (!posting) {
+          posting = { tf: 0, positions: [] };
+          postings.set(id, posting);
+        }
+        posting.tf += FIELD_WEIGHTS[field];
+        posting.positions.push(position++);
+      }
+      position += FIELD_GAP;
+    }
+
+    this.documents.set(id, {
+      folder,
+      uidValidity,
+      uid: summary.uid,
+      subject: summary.subject,
+      from: formatAddresses(summary.from),
+      date: summary.date,
+      length,
+      hasBody: body !== undefined,
+    });
+  }
+
+  private remove(ids: Set<number>): void {
+    if (ids.size === 0) {
+      return;
+    }
+    for (const id of ids) {
+      this.documents.delete(id);
+    }
+    for (const [term, postings] of this.postings) {
+      for (const id of ids) {
+        postings.delete(id);
+      }
+      if (postings.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+  }
+
+  private containsPhrase(id: number, phrase: string[]): boolean {
+    const [first, ...rest] = phrase.map((term) => this.postings.get(term)?.get(id)?.positions || []);
+    const others = rest.map((positions) => new Set(positions));
+    return first.some((start) => others.every((positions, offset) => positions.has(start + offset + 1)));
+  }
+
+  /**
+   * The passage of the body (or subject) with the most query terms, matches wrapped in **
+   */
+  private snippet(doc: IndexedDocument, terms: string[]): string {
+    const body = this.cache.getBody(doc.folder, doc.uidValidity, doc.uid);
+    const summary = this.cache.loadFolder(doc.folder)?.messages.find((message) => message.uid === doc.uid);
+    const text = documentText(body || summary || { snippet: '' } as Email) || doc.subject;
+
+    const tokens = tokenize(text);
+    const wanted = new Set(terms);
+    const matches = tokens.map((token) => wanted.has(token.term));
+
+    // Slide a window over the tokens and keep the one with the most matches
+    let best = 0;
+    let bestCount = -1;
+    let count = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      count += matches[i] ? 1 : 0;
+      if (i >= SNIPPET_WORDS) {
+        count -= matches[i - SNIPPET_WORDS] ? 1 : 0;
+      }
+      if (count > bestCount) {
+        bestCount = count;
+        best = Math.max(0, i - SNIPPET_WORDS + 1);
+      }
+    }
+
+    const window = tokens.slice(best, best + SNIPPET_WORDS);
+    if (window.length === 0) {
+      return text.slice(0, 200);
+    }
+
+    let result = '';
+    let cursor = window[0].start;
+    window.forEach((token, index) => {
+      result += text.slice(cursor, token.start);
+      const word = text.slice(token.start, token.end);
+      result += matches[best + index] ? `**${word}**` : word;
+      cursor = token.end;
+    });
+
+    const prefix = best > 0 ? '…' : '';
+    const suffix = best + window.length < tokens.length ? '…' : text.slice(cursor).trim();
+    return `${prefix}${result.replace(/\s+/g, ' ').trim()}${suffix}`;
+  }
+
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    try {
+      if (!fs.existsSync(this.file)) {
+        return;
+      }
+      const data = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as IndexFile;
+      if (data.version !== INDEX_VERSION) {
+        return;
+      }
+      this.nextId = data.nextId;
+      this.documents = new Map(data.documents.map(([id, doc]) => [id, { ...doc, date: new Date(doc.date) }]));
+      this.postings = new Map(data.postings.map(([term, entries]) => [
+        term,
+        new Map(entries.map(([id, tf, positions]) => [id, { tf, positions }])),
+      ]));
+    } catch (error) {
+      // A damaged index is rebuilt from the cache
+      console.error('Rebuilding unreadable search index:', error);
+      this.documents.clear();
+      this.postings.clear();
+      this.nextId = 1;
+    }
+  }
+
+  private save(): void {
+    const data: IndexFile = {
+      version: INDEX_VERSION,
+      nextId: this.nextId,
+      documents: [...this.documents],
+      postings: [...this.postings].map(([term, postings]) => [
+        term,
+        [...postings].map(([id, posting]) => [id, posting.tf, posting.positions]),
+      ]),
+    };
+
+    fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+    const temp = `${this.file}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(data), { mode: 0o600 });
+    fs.renameSync(temp, this.file);
+  }
+}
+
+/**
+ * Split text into normalized words with their offsets in the original text
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const segment of segmenter.segment(text || '')) {
+    if (!segment.isWordLike) {
+      continue;
+    }
+    const term = normalizeTerm(segment.segment);
+    if (term) {
+      tokens.push({ term, start: segment.index, end: segment.index + segment.segment.length });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Lowercase and strip diacritics from Latin, Greek and Cyrillic letters, so
+ * "Café" and "cafe" are the same term. Other scripts keep their combining
+ * marks, which are part of the letter (Devanagari vowel signs, Thai tone
+ * marks, kana voicing).
+ */
+function normalizeTerm(word: string): string {
+  return word
+    .normalize('NFKD')
+    .replace(/([\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}])\p{M}+/gu, '$1')
+    .normalize('NFKC')
+    .replace(/[’‘]/g, "'")
+    .toLowerCase();
+}
+
+/**
+ * Split a query into required words, phrases and excluded words or phrases.
+ * A word that tokenizes into several terms (e.g. "e-mail", or CJK text) is a
+ * phrase.
+ */
+function parseQuery(query: string): { required: string[]; phrases: string[][]; excluded: string[][] } {
+  const required: string[] = [];
+  const phrases: string[][] = [];
+  const excluded: string[][] = [];
+
+  for (const match of query.matchAll(/(-?)"([^"]*)"|(-?)(\S+)/g)) {
+    const negated = (match[1] || match[3]) === '-';
+    const terms = tokenize(match[2] ?? match[4]).map((token) => token.term);
+    if (terms.length === 0) {
+      continue;
+    }
+    if (negated) {
+      excluded.push(terms);
+    } else if (terms.length === 1) {
+      required.push(terms[0]);
+    } else {
+      phrases.push(terms);
+    }
+  }
+
+  return { required, phrases, excluded };
+}
+
+function documentKey(folder: string, uidValidity: number, uid: number): string {
+  return `${folder}\u0000${uidValidity}\u0000${uid}`;
+}
+
+function documentText(email: Email): string {
+  return bodyText(email) || email.snippet || '';
+}
+
+function formatAddresses(addresses?: EmailAddress[]): string {
+  return (addresses || []).map((address) => (address.name ? `${address.name} <${address.address}>` : address.address)).join(', ');
+}
@@ -0,0 +1,717 @@
+/**
+ * Gmail-style search queries for IMAP
+ *
+ * Parses queries such as
+ *   from:bob is:unread (subject:"invoice" OR larger:5M) -from:noreply
+ * and compiles them to node-imap SEARCH criteria.
+ *
+ * node-imap can only express an AND of criteria whose OR operands and NOT
+ * targets are single criteria, so the expression is rewritten into
+ * conjunctive normal form: each clause becomes one OR tree of (possibly
+ * negated) criteria. Predicates IMAP has no criterion for (has:attachment,
+ * filename:) are checked client-side against the BODYSTRUCTURE-derived
+ * attachment list; clauses containing them are evaluated locally.
+ */
+
+import type { Email } from './types.js';
+
+/**
+ * A single predicate: either an IMAP SEARCH criterion or a local check on a fetched summary
+ */
+type Condition =
+  | { key: string; criterion: any }
+  | { key: string; test: (email: Email) => boolean };
+
+type Expression =
+  | { type: 'and'; operands: Expression[] }
+  | { type: 'or'; operands: Expression[] }
+  | { type: 'not'; operand: Expression }
+  | { type: 'condition'; condition: Condition };
+
+interface Literal {
+  condition: Condition;
+  negated: boolean;
+}
+
+export interface CompiledSearch {
+  /** node-imap criteria for everything the server can evaluate (empty for "match all") */
+  criteria: any[];
+  /** Criteria whose matching UIDs the local filter needs, searched separately */
+  lookups: any[];
+  /**
+   * Check the clauses IMAP can't evaluate against a fetched summary.
+   * lookupResults holds the matching UIDs for each entry of lookups.
+   */
+  filter?: (email: Email, lookupResults: Set<number>[]) => boolean;
+}
+
+/** CNF conversion can grow exponentially; refuse queries beyond this many clauses */
+const MAX_CLAUSES = 64;
+
+const FLAG_VALUES: Record<string, string> = {
+  unread: 'UNSEEN',
+  read: 'SEEN',
+  seen: 'SEEN',
+  flagged: 'FLAGGED',
+  starred: 'FLAGGED',
+  answered: 'ANSWERED',
+  replied: 'ANSWERED',
+  draft: 'DRAFT',
+};
+
+const HEADER_FIELDS: Record<string, string> = {
+  from: 'FROM',
+  to: 'TO',
+  cc: 'CC',
+  bcc: 'BCC',
+  subject: 'SUBJECT',
+  body: 'BODY',
+};
+
+const SUPPORTED_OPERATORS = [
+  ...Object.keys(HEADER_FIELDS),
+  'is',
+  'has',
+  'filename',
+  'larger',
+  'smaller',
+  'older_than',
+  'newer_than',
+  'after',
+  'before',
+];
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 * 1024, g: 1024 * 1024 * 1024 };
+
+/**
+ * Quote a value so a query matches it literally, e.g. as subject:"Re: (draft)"
+ */
+export function quoteSearchValue(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/**
+ * Parse and compile a search query. An empty query matches everything.
+ * Throws an Error describing the problem and its position for invalid queries.
+ */
+export function compileSearchQuery(query: string, now: Date = new Date()): CompiledSearch {
+  const expression = new QueryParser(query, now).parse();
+  if (!expression) {
+    return { criteria: [], lookups: [] };
+  }
+
+  const clauses = toClauses(toNegationNormalForm(expression, false));
+  const criteria: any[] = [];
+  const localClauses: Literal[][] = [];
+
+  for (const clause of clauses) {
+    if (clause.every((literal) => 'criterion' in literal.condition)) {
+      criteria.push(orCriteria(clause.map(toCriterion)));
+    } else {
+      localClauses.push(clause);
+    }
+  }
+
+  if (localClauses.length === 0) {
+    return { criteria, lookups: [] };
+  }
+
+  // IMAP conditions that share a clause with a local check are searched on their own
+  const lookupIndex = new Map<string, number>();
+  const lookups: any[] = [];
+  for (const literal of localClauses.flat()) {
+    if ('criterion' in literal.condition && !lookupIndex.has(literal.condition.key)) {
+      lookupIndex.set(literal.condition.key, lookups.length);
+      lookups.push(literal.condition.criterion);
+    }
+  }
+
+  const holds = (condition: Condition, email: Email, lookupResults: Set<number>[]) =>
+    'test' in condition
+      ? condition.test(email)
+      : lookupResults[lookupIndex.get(condition.key)!].has(email.uid);
+
+  return {
+    criteria,
+    lookups,
+    filter: (email, lookupResults) =>
+      localClauses.every((clause) =>
+        clause.some((literal) => holds(literal.condition, email, lookupResults) !== literal.negated)
+      ),
+  };
+}
+
+/**
+ * Whether matchesCriteria can evaluate these node-imap criteria on a summary.
+ * Body and full-text searches need the server.
+ */
+export function isLocallyEvaluable(criteria: any[]): boolean {
+  return criteria.every((criterion) => {
+    const [name, ...args] = Array.isArray(criterion) ? criterion : [criterion];
+    const key = String(name).toUpperCase().replace(/^!/, '');
+    if (key === 'OR') {
+      return isLocallyEvaluable([args[0], args[1]]);
+    }
+    return LOCAL_CRITERIA.has(key);
+  });
+}
+
+/**
+ * Evaluate node-imap criteria against a summary, the way the server would,
+ * for results served from the local cache. Check isLocallyEvaluable first.
+ */
+export function matchesCriteria(criteria: any[], email: Email): boolean {
+  return criteria.every((criterion) => {
+    const [name, ...args] = Array.isArray(criterion) ? criterion : [criterion];
+    let key = String(name).toUpperCase();
+    const negated = key.startsWith('!');
+    key = key.replace(/^!/, '');
+
+    const result = key === 'OR'
+      ? matchesCriteria([args[0]], email) || matchesCriteria([args[1]], email)
+      : matchesCriterion(key, args, email);
+    return result !== negated;
+  });
+}
+
+const LOCAL_CRITERIA = new Set([
+  'ALL', 'SEEN', 'UNSEEN', 'FLAGGED', 'UNFLAGGED', 'ANSWERED', 'UNANSWERED', 'DRAFT', 'UNDRAFT',
+  'FROM', 'TO', 'CC', 'BCC', 'SUBJECT', 'LARGER', 'SMALLER', 'SINCE', 'BEFORE', 'ON',
+]);
+
+function matchesCriterion(key: string, args: any[], email: Email): boolean {
+  const flags = email.flags || [];
+  const contains = (haystack: string) => haystack.toLowerCase().includes(String(args[0]).toLowerCase());
+  const addresses = (list?: Email['to']) =>
+    (list || []).map((address) => `${address.name || ''} <${address.address}>`).join(', ');
+  // IMAP date criteria compare calendar days and ignore the time
+  const day = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+  switch (key) {
+    case 'ALL':
+      return true;
+    case 'SEEN':
+    case 'UNSEEN':
+      return flags.includes('\\Seen') === (key === 'SEEN');
+    case 'FLAGGED':
+    case 'UNFLAGGED':
+      return flags.includes('\\Flagged') === (key === 'FLAGGED');
+    case 'ANSWERED':
+    case 'UNANSWERED':
+      return flags.includes('\\Answered') === (key === 'ANSWERED');
+    case 'DRAFT':
+    case 'UNDRAFT':
+      return flags.includes('\\Draft') === (key === 'DRAFT');
+    case 'FROM':
+      return contains(addresses(email.from));
+    case 'TO':
+      return contains(addresses(email.to));
+    case 'CC':
+      return contains(addresses(email.cc));
+    case 'BCC':
+      return contains(addresses(email.bcc));
+    case 'SUBJECT':
+      return contains(email.subject);
+    case 'LARGER':
+      return (email.size || 0) > Number(args[0]);
+    case 'SMALLER':
+      return (email.size || 0) < Number(args[0]);
+    case 'SINCE':
+      return day(email.date) >= day(new Date(args[0]));
+    case 'BEFORE':
+      return day(email.date) < day(new Date(args[0]));
+    case 'ON':
+      return day(email.date) === day(new Date(args[0]));
+    default:
+      throw new Error(`Search criterion ${key} cannot be evaluated locally`);
+  }
+}
+
+/**
+ * Combine search criteria with OR, as a balanced tree to keep nesting shallow
+ */
+export function orCriteria(criteria: any[]): any {
+  if (criteria.length === 1) {
+    return criteria[0];
+  }
+  const middle = Math.ceil(criteria.length / 2);
+  return ['OR', orCriteria(criteria.slice(0, middle)), orCriteria(criteria.slice(middle))];
+}
+
+type Token =
+  | { type: 'word'; value: string; position: number }
+  | { type: 'phrase'; value: string; position: number }
+  | { type: 'field'; field: string; value: string; position: number }
+  | { type: 'field-group'; field: string; position: number }
+  | { type: 'or' | 'and' | 'not' | '(' | ')' | '{' | '}'; position: number };
+
+/**
+ * Recursive-descent parser:
+ *   query   := or
+ *   or      := and ("OR" and)*
+ *   and     := unary (["AND"] unary)*
+ *   unary   := ("-" | "NOT") unary | primary
+ *   primary := "(" or ")" | "{" unary* "}" | field ":" "(" or ")" | term
+ */
+class QueryParser {
+  private query: string;
+  private now: Date;
+  private tokens: Token[];
+  private index = 0;
+  private fieldScope: Array<{ field: string; position: number }> = [];
+
+  constructor(query: string, now: Date) {
+    this.query = query;
+    this.now = now;
+    this.tokens = this.tokenize();
+  }
+
+  parse(): Expression | undefined {
+    if (this.tokens.length === 0) {
+      return undefined;
+    }
+    const expression = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw this.error(`unexpected "${this.describe(extra)}"`, extra.position);
+    }
+    return expression;
+  }
+
+  private parseOr(): Expression {
+    const operands = [this.parseAnd()];
+    while (this.peek()?.type === 'or') {
+      this.index++;
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+
+  private parseAnd(): Expression {
+    const operands: Expression[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type === 'or' || token.type === ')' || token.type === '}') {
+        break;
+      }
+      if (token.type === 'and') {
+        if (operands.length === 0) {
+          throw this.error('AND needs a search term on both sides', token.position);
+        }
+        this.index++;
+      }
+      operands.push(this.parseUnary());
+    }
+
+    if (operands.length === 0) {
+      const token = this.peek();
+      throw token
+        ? this.error(`expected a search term before "${this.describe(token)}"`, token.position)
+        : this.error('expected a search term at the end of the query', this.query.length);
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (token?.type === 'not') {
+      this.index++;
+      const next = this.peek();
+      if (!next || next.type === 'or' || next.type === 'and' || next.type === ')' || next.type === '}') {
+        throw this.error('expected a search term after the negation', token.position);
+      }
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+    if (!token) {
+      throw this.error('expected a search term at the end of the query', this.query.length);
+    }
+
+    switch (token.type) {
+      case '(': {
+        const expression = this.parseOr();
+        this.expect(')', token.position);
+        return expression;
+      }
+      case '{': {
+        // Gmail's {a b c} means a OR b OR c
+        const operands: Expression[] = [];
+        while (this.peek() && this.peek()!.type !== '}') {
+          operands.push(this.parseUnary());
+        }
+        this.expect('}', token.position);
+        if (operands.length === 0) {
+          throw this.error('empty {} group', token.position);
+        }
+        return operands.length === 1 ? operands[0] : { type: 'or', operands };
+      }
+      case 'field-group': {
+        this.fieldScope.push({ field: token.field, position: token.position });
+        const expression = this.parseOr();
+        this.fieldScope.pop();
+        this.expect(')', token.position);
+        return expression;
+      }
+      case 'field':
+        return this.condition(token.field, token.value, token.position);
+      case 'word':
+      case 'phrase': {
+        const scope = this.fieldScope[this.fieldScope.length - 1];
+        return scope
+          ? this.condition(scope.field, token.value, token.position)
+          : this.condition('text', token.value, token.position);
+      }
+      default:
+        throw this.error(`unexpected "${this.describe(token)}"`, token.position);
+    }
+  }
+
+  private condition(field: string, value: string, position: number): Expression {
+    const make = (key: string, criterion: any): Expression => ({ type: 'condition', condition: { key, criterion } });
+
+    if (field === 'text') {
+      return make(`TEXT ${value}`, ['TEXT', value]);
+    }
+    if (HEADER_FIELDS[field]) {
+      return make(`${HEADER_FIELDS[field]} ${value}`, [HEADER_FIELDS[field], value]);
+    }
+
+    switch (field) {
+      case 'is': {
+        const flag = FLAG_VALUES[value.toLowerCase()];
+        if (!flag) {
+          throw this.error(
+            `unknown value "is:${value}". Use one of: ${Object.keys(FLAG_VALUES).join(', ')}`,
+            position
+          );
+        }
+        return make(flag, flag);
+      }
+      case 'has': {
+        if (!/^attachments?$/i.test(value)) {
+          throw this.error(`unknown value "has:${value}". Only has:attachment is supported`, position);
+        }
+        return {
+          type: 'condition',
+          condition: { key: 'has:attachment', test: (email) => (email.attachments || []).length > 0 },
+        };
+      }
+      case 'filename': {
+        // Gmail matches either the extension (filename:pdf) or part of the name
+        const needle = value.toLowerCase();
+        return {
+          type: 'condition',
+          condition: {
+            key: `filename:${needle}`,
+            test: (email) => (email.attachments || []).some((attachment) => {
+              const filename = attachment.filename.toLowerCase();
+              return filename.includes(needle) || filename.endsWith(`.${needle}`);
+            }),
+          },
+        };
+      }
+      case 'larger':
+      case 'smaller': {
+        const bytes = this.parseSize(value, position);
+        const name = field === 'larger' ? 'LARGER' : 'SMALLER';
+        return make(`${name} ${bytes}`, [name, bytes]);
+      }
+      case 'older_than':
+      case 'newer_than': {
+        const date = this.parseAge(value, position);
+        const name = field === 'older_than' ? 'BEFORE' : 'SINCE';
+        return make(`${name} ${date.toDateString()}`, [name, date]);
+      }
+      case 'after':
+      case 'before': {
+        const date = this.parseDate(value, position);
+        const name = field === 'after' ? 'SINCE' : 'BEFORE';
+        return make(`${name} ${date.toDateString()}`, [name, date]);
+      }
+      default:
+        throw this.error(`unsupported operator "${field}:"`, position);
+    }
+  }
+
+  /**
+   * Sizes like 500, 500K, 5M or 1G (also with a trailing B)
+   */
+  private parseSize(value: string, position: number): number {
+    const match = value.match(/^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i);
+    if (!match) {
+      throw this.error(`invalid size "${value}". Use a number of bytes or a K, M or G suffix, e.g. 5M`, position);
+    }
+    return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2].toLowerCase()]);
+  }
+
+  /**
+   * Relative ages like 7d, 2w, 6m or 1y, counted back from now
+   */
+  private parseAge(value: string, position: number): Date {
+    const match = value.match(/^(\d+)([dwmy])$/i);
+    if (!match) {
+      throw this.error(`invalid age "${value}". Use a number with d, w, m or y, e.g. 7d`, position);
+    }
+
+    const amount = parseInt(match[1], 10);
+    const date = new Date(this.now);
+    switch (match[2].toLowerCase()) {
+      case 'd':
+        date.setDate(date.getDate() - amount);
+        break;
+      case 'w':
+        date.setDate(date.getDate() - amount * 7);
+        break;
+      case 'm':
+        date.setMonth(date.getMonth() - amount);
+        break;
+      case 'y':
+        date.setFullYear(date.getFullYear() - amount);
+        break;
+    }
+    return date;
+  }
+
+  /**
+   * Dates as YYYY/MM/DD or YYYY-MM-DD
+   */
+  private parseDate(value: string, position: number): Date {
+    const match = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+    const date = match
+      ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10))
+      : undefined;
+    if (!date || date.getMonth() !== parseInt(match![2], 10) - 1) {
+      throw this.error(`invalid date "${value}". Use YYYY/MM/DD`, position);
+    }
+    return date;
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const query = this.query;
+    let i = 0;
+
+    while (i < query.length) {
+      const char = query[i];
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      const position = i;
+      if (char === '(' || char === ')' || char === '{' || char === '}') {
+        tokens.push({ type: char, position });
+        i++;
+        continue;
+      }
+      if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+        tokens.push({ type: 'not', position });
+        i++;
+        continue;
+      }
+      if (char === '"') {
+        const { value, end } = this.readQuoted(i);
+        tokens.push({ type: 'phrase', value, position });
+        i = end;
+        continue;
+      }
+
+      let end = i;
+      while (end < query.length && !/[\s(){}"]/.test(query[end])) {
+        end++;
+      }
+      const word = query.slice(i, end);
+      i = end;
+
+      if (word === 'OR' || word === '|') {
+        tokens.push({ type: 'or', position });
+        continue;
+      }
+      if (word === 'AND') {
+        tokens.push({ type: 'and', position });
+        continue;
+      }
+      if (word === 'NOT') {
+        tokens.push({ type: 'not', position });
+        continue;
+      }
+
+      // Only letters and underscores before the colon make an operator, so "10:30" stays a word.
+      // Like Gmail, an unknown name is plain text, so "Re: Budget" searches for "Re:" and "Budget".
+      const operator = word.match(/^([a-z_]+):(.*)$/i);
+      const field = operator?.[1].toLowerCase();
+      if (field === 'in') {
+        throw this.error('"in:" is not supported in queries; use the folder or folders parameter instead', position);
+      }
+      if (!operator || !field || !SUPPORTED_OPERATORS.includes(field)) {
+        tokens.push({ type: 'word', value: word, position });
+        continue;
+      }
+
+      if (operator[2]) {
+        tokens.push({ type: 'field', field, value: operator[2], position });
+      } else if (query[i] === '"') {
+        const { value, end: quoteEnd } = this.readQuoted(i);
+        tokens.push({ type: 'field', field, value, position });
+        i = quoteEnd;
+      } else if (query[i] === '(') {
+        tokens.push({ type: 'field-group', field, position });
+        i++;
+      } else {
+        throw this.error(`missing value after "${operator[1]}:"`, position);
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Read a double-quoted string starting at start; \" and \\ are escapes
+   */
+  private readQuoted(start: number): { value: string; end: number } {
+    let value = '';
+    for (let i = start + 1; i < this.query.length; i++) {
+      const char = this.query[i];
+      if (char === '\\' && i + 1 < this.query.length) {
+        value += this.query[++i];
+      } else if (char === '"') {
+        if (!value) {
+          throw this.error('empty quoted string', start);
+        }
+        return { value, end: i + 1 };
+      } else {
+        value += char;
+      }
+    }
+    throw this.error('unterminated quote', start);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private expect(type: ')' | '}', openedAt: number): void {
+    const token = this.next();
+    if (token?.type !== type) {
+      throw this.error(`missing "${type}" for the group opened here`, openedAt);
+    }
+  }
+
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'word':
+        return token.value;
+      case 'phrase':
+        return `"${token.value}"`;
+      case 'field':
+        return `${token.field}:${token.value}`;
+      case 'field-group':
+        return `${token.field}:(`;
+      case 'or':
+      case 'and':
+        return token.type.toUpperCase();
+      case 'not':
+        return '-';
+      default:
+        return token.type;
+    }
+  }
+
+  private error(message: string, position: number): Error {
+    return new Error(`Invalid search query at position ${position + 1}: ${message}\n  ${this.query}\n  ${' '.repeat(position)}^`);
+  }
+}
+
+/**
+ * Push negations down to the conditions, flattening nested ANDs and ORs
+ */
+function toNegationNormalForm(expression: Expression, negated: boolean): Expression {
+  switch (expression.type) {
+    case 'not':
+      return toNegationNormalForm(expression.operand, !negated);
+    case 'condition':
+      return negated ? { type: 'not', operand: expression } : expression;
+    case 'and':
+    case 'or': {
+      // De Morgan: NOT (a AND b) = NOT a OR NOT b, and vice versa
+      const type = negated ? (expression.type === 'and' ? 'or' : 'and') : expression.type;
+      const operands = expression.operands
+        .map((operand) => toNegationNormalForm(operand, negated))
+        .flatMap((operand) => (operand.type === type ? (operand as { operands: Expression[] }).operands : [operand]));
+      return { type, operands };
+    }
+  }
+}
+
+/**
+ * Convert an expression in negation normal form to a list of OR clauses (CNF)
+ */
+function toClauses(expression: Expression): Literal[][] {
+  switch (expression.type) {
+    case 'condition':
+      return [[{ condition: expression.condition, negated: false }]];
+    case 'not':
+      return [[{ condition: (expression.operand as { condition: Condition }).condition, negated: true }]];
+    case 'and':
+      return dedupeClauses(expression.operands.flatMap(toClauses));
+    case 'or': {
+      // (a AND b) OR c = (a OR c) AND (b OR c)
+      let clauses: Literal[][] = [[]];
+      for (const operand of expression.operands) {
+        const operandClauses = toClauses(operand);
+        if (clauses.length * operandClauses.length > MAX_CLAUSES) {
+          throw new Error(
+            'Invalid search query: too many OR combinations to translate to IMAP. Simplify the query or split it into several searches'
+          );
+        }
+        clauses = clauses.flatMap((clause) => operandClauses.map((other) => [...clause, ...other]));
+      }
+      return dedupeClauses(clauses);
+    }
+  }
+}
+
+/**
+ * Remove repeated literals within clauses, clauses that are always true (a OR NOT a)
+ * and repeated clauses
+ */
+function dedupeClauses(clauses: Literal[][]): Literal[][] {
+  const seen = new Set<string>();
+  const result: Literal[][] = [];
+
+  for (const clause of clauses) {
+    const literals = new Map<string, Literal>();
+    for (const literal of clause) {
+      literals.set(`${literal.negated ? '!' : ''}${literal.condition.key}`, literal);
+    }
+    if ([...literals.values()].some((literal) => literals.has(`${literal.negated ? '' : '!'}${literal.condition.key}`))) {
+      continue;
+    }
+
+    const key = [...literals.keys()].sort().join('\n');
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push([...literals.values()]);
+    }
+  }
+  return result;
+}
+
+/**
+ * node-imap negates a criterion with a "!" prefix on its name
+ */
+function toCriterion(literal: Literal): any {
+  const criterion = (literal.condition as { criterion: any }).criterion;
+  if (!literal.negated) {
+    return criterion;
+  }
+  return Array.isArray(criterion) ? [`!${criterion[0]}`, ...criterion.slice(1)] : `!${criterion}`;
+}
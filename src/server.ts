@@ -7,14 +7,46 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { YahooOAuth2 } from './oauth2.js';
 import { YahooIMAPClient } from './imap-client.js';
 import { YahooCalDAVClient } from './caldav-client.js';
-import type { YahooConfig } from './types.js';
+import { YahooSMTPClient } from './smtp-client.js';
+import { renderBody, type BodyFormat } from './body.js';
+import { buildForward, buildReply } from './compose.js';
+import { YahooDrafts } from './drafts.js';
+import { MailCache } from './mail-cache.js';
+import { SearchIndex } from './search-index.js';
+import { MailWatcher, type MailboxChange } from './mail-watcher.js';
+import { PROMPTS, getPrompt } from './prompts.js';
+import { busyFromEvents, findFreeSlots, formatSlotTime } from './free-slots.js';
+import { formatResponse, parseResponseOptions, withResponseOptions } from './response.js';
+import {
+  RESOURCE_TEMPLATES,
+  attachmentUri,
+  eventUri,
+  formatEmailText,
+  formatEventText,
+  formatMailboxText,
+  mailboxUri,
+  messageUri,
+  parseResourceUri,
+} from './resources.js';
+import { fromWallTime, isValidTimeZone } from './timezone.js';
+import type { BusyPeriod, CalendarEvent, EventChanges, SendEmailParams, SyncResult, YahooConfig } from './types.js';
 
 // Load environment variables
 dotenv.config();
@@ -31,6 +63,29 @@ const config: YahooConfig = {
   smtpPort: parseInt(process.env.YAHOO_SMTP_PORT || '587', 10),
 };
 
+// Attachment handling: where saved attachments go, and the largest attachment returned inline
+const downloadDir = process.env.YAHOO_DOWNLOAD_DIR || path.join(os.homedir(), '.yahoo-mail-mcp', 'downloads');
+const maxAttachmentSize = parseInt(process.env.YAHOO_MAX_ATTACHMENT_SIZE || String(5 * 1024 * 1024), 10);
+
+// Number of IMAP connections used for parallel work on different folders
+const imapPoolSize = parseInt(process.env.YAHOO_IMAP_POOL_SIZE || '1', 10);
+
+// Folders watched with IMAP IDLE for new mail, e.g. "INBOX,Work". Empty disables the watcher.
+const watchFolders = (process.env.YAHOO_WATCH_FOLDERS || '')
+  .split(',')
+  .map((folder) => folder.trim())
+  .filter(Boolean);
+
+// Local data (message cache) lives next to the tokens unless YAHOO_DATA_DIR is set
+const dataDir = process.env.YAHOO_DATA_DIR
+  || process.env.YAHOO_TOKEN_DIR
+  || path.join(os.homedir(), '.yahoo-mail-mcp');
+
+// Message cache: YAHOO_CACHE=false disables it; the TTL is in seconds
+const cacheEnabled = process.env.YAHOO_CACHE !== 'false';
+const cacheTtl = parseInt(process.env.YAHOO_CACHE_TTL || '60', 10) * 1000;
+const cacheMaxMessages = parseInt(process.env.YAHOO_CACHE_MAX_MESSAGES || '500', 10);
+
 // Validate required configuration
 if (!config.clientId || !config.clientSecret) {
   console.error('ERROR: YAHOO_CLIENT_ID and YAHOO_CLIENT_SECRET must be set in .env file');
@@ -41,8 +96,15 @@ if (!config.clientId || !config.clientSecret) {
 let oauth2: YahooOAuth2 | null = null;
 let imapClient: YahooIMAPClient | null = null;
 let caldavClient: YahooCalDAVClient | null = null;
+let smtpClient: YahooSMTPClient | null = null;
+let drafts: YahooDrafts | null = null;
+let mailCache: MailCache | null = null;
+let searchIndex: SearchIndex | null = null;
 let emailAddress: string = '';
 
+// Resource URIs the client has subscribed to
+const subscriptions = new Set<string>();
+
 /**
  * Get or create OAuth2 client
  */
@@ -54,21 +116,85 @@ function getOAuth2(): YahooOAuth2 {
 }
 
 /**
- * Get or create IMAP client
+ * Resolve the account email address
  */
-async function getIMAPClient(): Promise<YahooIMAPClient> {
-  if (!imapClient) {
-    const oauth = getOAuth2();
+function getEmailAddress(): string {
+  if (!emailAddress) {
     // Get email from environment or extract from client ID
     emailAddress = process.env.YAHOO_EMAIL || (config.clientId.includes('@') ? config.clientId : '');
     if (!emailAddress) {
       throw new Error('Email address not found. Please set YAHOO_EMAIL in .env file');
     }
-    imapClient = new YahooIMAPClient(oauth, emailAddress, config.imapHost, config.imapPort);
+  }
+  return emailAddress;
+}
+
+/**
+ * Get or create the local message cache, or undefined when disabled
+ */
+function getMailCache(): MailCache | undefined {
+  if (!cacheEnabled) {
+    return undefined;
+  }
+  if (!mailCache) {
+    mailCache = new MailCache(path.join(dataDir, 'cache', getEmailAddress()), { ttl: cacheTtl, maxMessages: cacheMaxMessages });
+  }
+  return mailCache;
+}
+
+/**
+ * Get or create the offline search index over the cache
+ */
+function getSearchIndex(): SearchIndex {
+  const cache = getMailCache();
+  if (!cache) {
+    throw new Error('Local search needs the message cache, which is disabled (YAHOO_CACHE=false)');
+  }
+  if (!searchIndex) {
+    searchIndex = new SearchIndex(cache);
+  }
+  return searchIndex;
+}
+
+/**
+ * Get or create IMAP client
+ */
+async function getIMAPClient(): Promise<YahooIMAPClient> {
+  if (!imapClient) {
+    const oauth = getOAuth2();
+    imapClient = new YahooIMAPClient(
+      oauth,
+      getEmailAddress(),
+      config.imapHost,
+      config.imapPort,
+      imapPoolSize,
+      getMailCache()
+    );
   }
   return imapClient;
 }
 
+/**
+ * Get or create SMTP client
+ */
+async function getSMTPClient(): Promise<YahooSMTPClient> {
+  if (!smtpClient) {
+    const oauth = getOAuth2();
+    smtpClient = new YahooSMTPClient(oauth, getEmailAddress(), config.smtpHost, config.smtpPort);
+  }
+  return smtpClient;
+}
+
+/**
+ * Get or create draft manager
+ */
+async function getDrafts(): Promise<YahooDrafts> {
+  if (!drafts) {
+    drafts = new YahooDrafts(await getIMAPClient(), await getSMTPClient());
+  }
+  return drafts;
+}
+
 /**
  * Get or create CalDAV client
  */
@@ -80,6 +206,231 @@ async function getCalDAVClient(): Promise<YahooCalDAVClient> {
   return caldavClient;
 }
 
+/**
+ * Send an email over SMTP and file a copy in the Sent folder
+ */
+async function sendAndSave(params: SendEmailParams) {
+  const smtp = await getSMTPClient();
+  const result = await smtp.sendEmail(params);
+
+  // The message is already delivered, so a failed Sent copy is reported rather than thrown
+  let sentFolder: string | undefined;
+  let sentCopyError: string | undefined;
+  try {
+    const imap = await getIMAPClient();
+    sentFolder = await imap.findSpecialUseMailbox('\\Sent', ['Sent', 'Sent Items', 'Sent Messages']);
+    if (sentFolder) {
+      await imap.appendMessage(result.raw, sentFolder, ['\\Seen']);
+    } else {
+      sentCopyError = 'Sent folder not found';
+    }
+  } catch (error) {
+    sentCopyError = error instanceof Error ? error.message : String(error);
+    console.error('Failed to save copy to Sent folder:', sentCopyError);
+  }
+
+  return {
+    messageId: result.messageId,
+    accepted: result.accepted,
+    rejected: result.rejected,
+    sentFolder: sentCopyError ? undefined : sentFolder,
+    ...(sentCopyError && { sentCopyError }),
+  };
+}
+
+/**
+ * Flag the original of a reply or forward. Failures are logged, not thrown,
+ * because the message has already been sent.
+ */
+async function markOriginal(client: YahooIMAPClient, uid: number, folder: string, flag: string): Promise<void> {
+  try {
+    await client.setFlags({ uids: [uid], folder, add: [flag] });
+  } catch (error) {
+    console.error(`Failed to flag original email ${uid} as ${flag}:`, error);
+  }
+}
+
+/**
+ * Write attachment content to the download directory without overwriting
+ * existing files. Returns the path written.
+ */
+function saveToDownloadDir(filename: string, content: Buffer): string {
+  if (!fs.existsSync(downloadDir)) {
+    fs.mkdirSync(downloadDir, { recursive: true, mode: 0o700 });
+  }
+
+  // Never let a filename from an email escape the download directory
+  const safeName = path.basename(filename).replace(/[\x00-\x1f<>:"/\\|?*]/g, '_') || 'attachment';
+  const ext = path.extname(safeName);
+  const base = safeName.slice(0, safeName.length - ext.length);
+
+  let target = path.join(downloadDir, safeName);
+  for (let i = 1; fs.existsSync(target); i++) {
+    target = path.join(downloadDir, `${base} (${i})${ext}`);
+  }
+
+  fs.writeFileSync(target, content, { mode: 0o600 });
+  return target;
+}
+
+/**
+ * Convert attachment tool arguments into SendEmailParams attachments
+ */
+function parseAttachmentArgs(value: unknown): SendEmailParams['attachments'] {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.map((att: { filename?: string; content?: string; path?: string; contentType?: string }) => ({
+    filename: att.filename,
+    content: att.content,
+    encoding: att.content !== undefined ? 'base64' : undefined,
+    path: att.path,
+    contentType: att.contentType,
+  }));
+}
+
+/**
+ * Read an event time argument. A date-time without an offset is a wall time
+ * in timezone. A date (YYYY-MM-DD) is midnight in timezone for timed events;
+ * for all-day events it is local midnight, the way all-day dates are held.
+ */
+function parseEventTime(value: string, timezone: string, allDay?: boolean): Date {
+  const date = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (date && allDay !== false) {
+    return new Date(+date[1], +date[2] - 1, +date[3]);
+  }
+  const wall = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (wall) {
+    const [, year, month, day, hour, minute, second] = wall;
+    return fromWallTime({ year: +year, month: +month, day: +day, hour: +(hour || 0), minute: +(minute || 0), second: +(second || 0) }, timezone);
+  }
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) {
+    throw new Error(`Invalid date: ${value}. Use ISO 8601, e.g. 2024-03-05T09:00:00 or 2024-03-05 for all-day events.`);
+  }
+  return parsed;
+}
+
+/**
+ * Build an RRULE from the recurrence tool argument; NONE gives '' (stop repeating)
+ */
+function recurrenceRule(
+  recurrence: { frequency?: string; interval?: number; count?: number; until?: string; byDay?: string[]; byMonthDay?: number[] },
+  allDay: boolean,
+  timezone: string
+): string {
+  const frequency = String(recurrence.frequency || '').toUpperCase();
+  if (frequency === 'NONE') {
+    return '';
+  }
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(frequency)) {
+    throw new Error(`Invalid recurrence frequency: ${recurrence.frequency}. Use DAILY, WEEKLY, MONTHLY, YEARLY or NONE.`);
+  }
+
+  const parts = [`FREQ=${frequency}`];
+  if (recurrence.interval && recurrence.interval > 1) {
+    parts.push(`INTERVAL=${Math.floor(recurrence.interval)}`);
+  }
+  if (recurrence.count) {
+    parts.push(`COUNT=${Math.floor(recurrence.count)}`);
+  } else if (recurrence.until) {
+    // UNTIL is a date for all-day events, else a UTC time; a date then means the end of that day
+    if (allDay) {
+      const until = parseEventTime(recurrence.until.slice(0, 10), timezone, true);
+      parts.push(`UNTIL=${until.getFullYear()}${String(until.getMonth() + 1).padStart(2, '0')}${String(until.getDate()).padStart(2, '0')}`);
+    } else {
+      const until = parseEventTime(/^\d{4}-\d{2}-\d{2}$/.test(recurrence.until) ? `${recurrence.until}T23:59:59` : recurrence.until, timezone, false);
+      parts.push(`UNTIL=${until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    }
+  }
+  if (recurrence.byDay?.length) {
+    const days = recurrence.byDay.map((day) => day.trim().toUpperCase());
+    const invalid = days.find((day) => !/^([+-]?[1-5])?(MO|TU|WE|TH|FR|SA|SU)$/.test(day));
+    if (invalid) {
+      throw new Error(`Invalid recurrence day: ${invalid}. Use MO-SU, optionally numbered (1MO, -1FR).`);
+    }
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+  if (recurrence.byMonthDay?.length) {
+    parts.push(`BYMONTHDAY=${recurrence.byMonthDay.map((day) => Math.trunc(day)).join(',')}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Convert event tool arguments into EventChanges. Times without an offset
+ * are read in timezone, else in the zone of current (the event being
+ * updated), else in UTC.
+ */
+function parseEventArgs(args: Record<string, unknown> | undefined, current?: CalendarEvent): EventChanges {
+  const timezone = args?.timezone as string | undefined;
+  if (timezone && !isValidTimeZone(timezone)) {
+    throw new Error(`Unknown time zone: ${timezone}. Use an IANA name such as Europe/Berlin.`);
+  }
+  const zone = timezone ?? current?.timezone ?? 'UTC';
+
+  const startArg = args?.start as string | undefined;
+  const endArg = args?.end as string | undefined;
+  const allDay = (args?.allDay as boolean | undefined) ?? (startArg && /^\d{4}-\d{2}-\d{2}$/.test(startArg) ? true : undefined);
+  // An update that doesn't say keeps the event all-day or timed
+  const isAllDay = allDay ?? current?.allDay ?? false;
+
+  let end = endArg !== undefined ? parseEventTime(endArg, zone, isAllDay) : undefined;
+  if (end && isAllDay) {
+    // The end of an all-day event is given as its last day
+    end = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+  }
+
+  const attendees = args?.attendees as Array<{ email: string; name?: string; optional?: boolean }> | undefined;
+  const recurrence = args?.recurrence as Parameters<typeof recurrenceRule>[0] | undefined;
+  const showAs = args?.showAs as string | undefined;
+
+  return {
+    summary: args?.summary as string | undefined,
+    description: args?.description as string | undefined,
+    location: args?.location as string | undefined,
+    start: startArg !== undefined ? parseEventTime(startArg, zone, isAllDay) : undefined,
+    end,
+    allDay,
+    timezone,
+    attendees: attendees?.map((attendee) => ({
+      address: attendee.email,
+      name: attendee.name,
+      role: attendee.optional ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT',
+    })),
+    organizer: attendees?.length ? { address: getEmailAddress() } : undefined,
+    reminders: args?.reminders as number[] | undefined,
+    rrule: recurrence ? recurrenceRule(recurrence, isAllDay, zone) : undefined,
+    transparency: showAs ? (showAs === 'free' ? 'TRANSPARENT' : 'OPAQUE') : undefined,
+    status: args?.status as string | undefined,
+  };
+}
+
+/**
+ * A calendar event as returned by the calendar tools
+ */
+function eventResult(event: CalendarEvent) {
+  return {
+    id: event.id,
+    masterId: event.masterId,
+    summary: event.summary,
+    description: event.description,
+    start: event.start.toISOString(),
+    end: event.end.toISOString(),
+    allDay: event.allDay,
+    timezone: event.timezone,
+    location: event.location,
+    organizer: event.organizer,
+    attendees: event.attendees,
+    status: event.status,
+    transparency: event.transparency,
+    rrule: event.rrule,
+    recurrenceId: event.recurrenceId?.toISOString(),
+    categories: event.categories,
+    etag: event.etag,
+  };
+}
+
 /**
  * Initialize MCP Server
  */
@@ -91,14 +442,162 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: { subscribe: true },
+      prompts: {},
+      logging: {},
     },
   }
 );
 
 /**
- * Define MCP Tools
+ * Input properties shared by tools that compose a message
+ */
+const composeProperties = {
+  to: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Recipient email addresses',
+  },
+  cc: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'CC recipient email addresses',
+  },
+  bcc: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'BCC recipient email addresses',
+  },
+  subject: {
+    type: 'string',
+    description: 'Email subject line',
+  },
+  text: {
+    type: 'string',
+    description: 'Plain text body',
+  },
+  html: {
+    type: 'string',
+    description: 'HTML body',
+  },
+  attachments: {
+    type: 'array',
+    description: 'Files to attach. Provide either base64 content or a local file path for each.',
+    items: {
+      type: 'object',
+      properties: {
+        filename: {
+          type: 'string',
+          description: 'File name shown to the recipient. Defaults to the file name of path.',
+        },
+        content: {
+          type: 'string',
+          description: 'Base64-encoded file content',
+        },
+        path: {
+          type: 'string',
+          description: 'Path to a local file',
+        },
+        contentType: {
+          type: 'string',
+          description: 'MIME type, e.g. "application/pdf". Detected from the file name if omitted.',
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Input properties shared by tools that create or change calendar events
+ */
+const eventProperties = {
+  summary: {
+    type: 'string',
+    description: 'Event title',
+  },
+  start: {
+    type: 'string',
+    description: 'Start: an ISO 8601 date-time, or a date (YYYY-MM-DD) for an all-day event. A date-time without an offset is read in timezone; without one, in UTC, or on update in the event\'s current time zone.',
+  },
+  end: {
+    type: 'string',
+    description: 'End date-time; for all-day events, the last day (inclusive). Default: one hour after the start, or the same day for all-day events.',
+  },
+  allDay: {
+    type: 'boolean',
+    description: 'All-day event. Implied when start is a date.',
+  },
+  timezone: {
+    type: 'string',
+    description: 'IANA time zone (e.g. "Europe/Berlin") the event is kept in, so repeats follow its DST changes. Default: UTC.',
+  },
+  location: {
+    type: 'string',
+    description: 'Event location',
+  },
+  description: {
+    type: 'string',
+    description: 'Event notes',
+  },
+  attendees: {
+    type: 'array',
+    description: 'People to invite. Replaces the attendee list; attendees already invited keep their responses.',
+    items: {
+      type: 'object',
+      properties: {
+        email: { type: 'string', description: 'Email address' },
+        name: { type: 'string', description: 'Display name' },
+        optional: { type: 'boolean', description: 'Optional attendee. Default: false' },
+      },
+      required: ['email'],
+    },
+  },
+  reminders: {
+    type: 'array',
+    items: { type: 'number' },
+    description: 'Reminders, in minutes before the start (e.g. [10, 1440]). Replaces existing reminders; [] removes them.',
+  },
+  recurrence: {
+    type: 'object',
+    description: 'Repeat the event. Applies to a whole series, not to one occurrence.',
+    properties: {
+      frequency: {
+        type: 'string',
+        enum: ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY', 'NONE'],
+        description: 'How often it repeats; NONE stops a series repeating',
+      },
+      interval: { type: 'number', description: 'Every n days/weeks/months/years. Default: 1' },
+      count: { type: 'number', description: 'Number of occurrences' },
+      until: { type: 'string', description: 'Last date (YYYY-MM-DD) or date-time it repeats on' },
+      byDay: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Weekdays (MO, TU, WE, TH, FR, SA, SU); numbered for monthly rules, e.g. ["2TU"] or ["-1FR"]',
+      },
+      byMonthDay: {
+        type: 'array',
+        items: { type: 'number' },
+        description: 'Days of the month, e.g. [1, 15]; -1 is the last day',
+      },
+    },
+    required: ['frequency'],
+  },
+  showAs: {
+    type: 'string',
+    enum: ['busy', 'free'],
+    description: 'Whether the event blocks time. Default: busy',
+  },
+  status: {
+    type: 'string',
+    enum: ['CONFIRMED', 'TENTATIVE', 'CANCELLED'],
+    description: 'Event status',
+  },
+};
+
+/**
+ * Define MCP Tools. Every tool also takes the response options (fields, maxBodyChars, format).
  */
-const tools: Tool[] = [
+const tools: Tool[] = withResponseOptions([
   {
     name: 'yahoo_mail_fetch_emails',
     description: 'Fetch emails from Yahoo Mail inbox or specified folder. Supports pagination and filtering.',
@@ -115,7 +614,11 @@ const tools: Tool[] = [
         },
         offset: {
           type: 'number',
-          description: 'Number of emails to skip for pagination. Default: 0',
+          description: 'Number of emails to skip. Prefer cursor, which is not affected by new mail. Default: 0',
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page, to continue where it stopped',
         },
         since: {
           type: 'string',
@@ -125,6 +628,10 @@ const tools: Tool[] = [
           type: 'boolean',
           description: 'Only fetch unread emails. Default: false',
         },
+        markSeen: {
+          type: 'boolean',
+          description: 'Mark the fetched emails as read. Default: false (the folder is opened read-only)',
+        },
       },
     },
   },
@@ -142,24 +649,57 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Folder containing the email. Defaults to INBOX.',
         },
+        markSeen: {
+          type: 'boolean',
+          description: 'Mark the email as read. Default: false',
+        },
+        bodyFormat: {
+          type: 'string',
+          enum: ['text', 'markdown', 'html', 'raw'],
+          description: 'How to return the body: text (plain text, link targets in parentheses), markdown (converted from HTML, keeping links and tables), html (the HTML part), or raw (the text and HTML parts exactly as received). Default: text',
+        },
+        stripQuotes: {
+          type: 'boolean',
+          description: 'Remove quoted replies, forwarded-message headers and signatures, leaving only the new content. Ignored for raw. Default: false',
+        },
       },
       required: ['emailId'],
     },
   },
   {
     name: 'yahoo_mail_search_emails',
-    description: 'Search emails by query, sender, subject, or date range.',
+    description: 'Search emails with a Gmail-style query, optionally narrowed by sender, subject, or date range.',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'Search query text',
+          description: 'Gmail-style query. Words and "quoted phrases" match anywhere in the message. '
+            + 'Operators: from: to: cc: bcc: subject: body: is:unread|read|flagged|answered|draft '
+            + 'has:attachment filename: larger:5M smaller:100K older_than:7d newer_than:2w after:2024/01/31 before:. '
+            + 'Terms are ANDed; combine with OR, group with ( ), negate with - (e.g. -from:noreply).',
         },
         folder: {
           type: 'string',
           description: 'Folder to search in. Defaults to INBOX.',
         },
+        folders: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Search these folders instead of folder. An empty array searches all folders.',
+        },
+        allFolders: {
+          type: 'boolean',
+          description: 'Search every folder except Trash and Spam. Results are merged newest first and tagged with their folder.',
+        },
+        includeTrash: {
+          type: 'boolean',
+          description: 'With allFolders, also search Trash. Default: false',
+        },
+        includeSpam: {
+          type: 'boolean',
+          description: 'With allFolders, also search Spam. Default: false',
+        },
         from: {
           type: 'string',
           description: 'Filter by sender email address',
@@ -185,166 +725,1227 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Maximum number of results. Default: 50',
         },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page, to continue where it stopped. Other parameters must match the first call',
+        },
       },
     },
   },
   {
-    name: 'yahoo_calendar_list_calendars',
-    description: 'List all available Yahoo calendars for the authenticated user.',
+    name: 'yahoo_mail_get_attachment',
+    description: 'Download an attachment of an email, selected by index, filename or content-id. Returns it as embedded base64 content, or saves it to the download directory.',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        emailId: {
+          type: 'string',
+          description: 'Email UID',
+        },
+        folder: {
+          type: 'string',
+          description: 'Folder containing the email. Defaults to INBOX.',
+        },
+        index: {
+          type: 'number',
+          description: 'Attachment index as listed by yahoo_mail_get_email (0-based)',
+        },
+        filename: {
+          type: 'string',
+          description: 'Attachment file name',
+        },
+        contentId: {
+          type: 'string',
+          description: 'Content-ID of an inline attachment',
+        },
+        saveToDisk: {
+          type: 'boolean',
+          description: 'Save the file to the download directory and return its path instead of the content. Default: false',
+        },
+      },
+      required: ['emailId'],
     },
   },
   {
-    name: 'yahoo_calendar_fetch_events',
-    description: 'Fetch calendar events from Yahoo Calendar within a date range.',
+    name: 'yahoo_mail_send_email',
+    description: 'Send an email from the Yahoo account over SMTP. A copy is saved to the Sent folder.',
+    inputSchema: {
+      type: 'object',
+      properties: composeProperties,
+      required: ['to', 'subject'],
+    },
+  },
+  {
+    name: 'yahoo_mail_reply',
+    description: 'Reply to the sender of an email. Keeps threading headers and quotes the original message.',
     inputSchema: {
       type: 'object',
       properties: {
-        calendarId: {
+        emailId: {
           type: 'string',
-          description: 'Specific calendar ID. If not provided, fetches from all calendars.',
+          description: 'UID of the email to reply to',
         },
-        startDate: {
+        folder: {
           type: 'string',
-          description: 'Start date (ISO 8601 format)',
-          format: 'date-time',
+          description: 'Folder containing the email. Defaults to INBOX.',
         },
-        endDate: {
+        text: {
           type: 'string',
-          description: 'End date (ISO 8601 format)',
-          format: 'date-time',
+          description: 'Plain text reply body',
+        },
+        html: {
+          type: 'string',
+          description: 'HTML reply body',
+        },
+        cc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Additional CC recipients',
+        },
+        bcc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'BCC recipients',
         },
+        quoteOriginal: {
+          type: 'boolean',
+          description: 'Quote the original message below the reply. Default: true',
+        },
+        attachments: composeProperties.attachments,
       },
-      required: ['startDate', 'endDate'],
+      required: ['emailId'],
     },
   },
-];
-
-/**
- * Handle ListTools request
- */
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools,
-}));
-
-/**
- * Handle CallTool request
- */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case 'yahoo_mail_fetch_emails': {
-        const client = await getIMAPClient();
-        const params = {
-          folder: args?.folder as string | undefined,
-          limit: args?.limit as number | undefined,
-          offset: args?.offset as number | undefined,
-          since: args?.since ? new Date(args.since as string) : undefined,
-          unreadOnly: args?.unreadOnly as boolean | undefined,
-        };
-        
-        const emails = await client.fetchEmails(params);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                count: emails.length,
-                emails: emails.map(email => ({
-                  id: email.id,
-                  uid: email.uid,
-                  subject: email.subject,
-                  from: email.from,
-                  to: email.to,
-                  date: email.date.toISOString(),
-                  unread: !email.flags?.includes('\\Seen'),
-                  snippet: email.text?.substring(0, 200) || email.html?.substring(0, 200) || '',
-                })),
-              }, null, 2),
-            },
-          ],
-        };
-      }
-
+  {
+    name: 'yahoo_mail_reply_all',
+    description: 'Reply to the sender and all other recipients of an email (excluding your own address). Keeps threading headers and quotes the original message.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        emailId: {
+          type: 'string',
+          description: 'UID of the email to reply to',
+        },
+        folder: {
+          type: 'string',
+          description: 'Folder containing the email. Defaults to INBOX.',
+        },
+        text: {
+          type: 'string',
+          description: 'Plain text reply body',
+        },
+        html: {
+          type: 'string',
+          description: 'HTML reply body',
+        },
+        cc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Additional CC recipients',
+        },
+        bcc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'BCC recipients',
+        },
+        quoteOriginal: {
+          type: 'boolean',
+          description: 'Quote the original message below the reply. Default: true',
+        },
+        attachments: composeProperties.attachments,
+      },
+      required: ['emailId'],
+    },
+  },
+  {
+    name: 'yahoo_mail_forward',
+    description: 'Forward an email to new recipients, optionally re-attaching the original attachments.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        emailId: {
+          type: 'string',
+          description: 'UID of the email to forward',
+        },
+        folder: {
+          type: 'string',
+          description: 'Folder containing the email. Defaults to INBOX.',
+        },
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Recipient email addresses',
+        },
+        cc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'CC recipient email addresses',
+        },
+        bcc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'BCC recipient email addresses',
+        },
+        text: {
+          type: 'string',
+          description: 'Note to include above the forwarded message',
+        },
+        html: {
+          type: 'string',
+          description: 'HTML note to include above the forwarded message',
+        },
+        includeAttachments: {
+          type: 'boolean',
+          description: 'Re-attach the original attachments. Default: true',
+        },
+        attachments: {
+          ...composeProperties.attachments,
+          description: 'Further files to attach, besides the original attachments. Provide either base64 content or a local file path for each.',
+        },
+      },
+      required: ['emailId', 'to'],
+    },
+  },
+  {
+    name: 'yahoo_mail_create_draft',
+    description: 'Save a new draft to the Drafts folder for a human to review in Yahoo Mail. Nothing is sent.',
+    inputSchema: {
+      type: 'object',
+      properties: composeProperties,
+    },
+  },
+  {
+    name: 'yahoo_mail_update_draft',
+    description: 'Update an existing draft. Only the given fields change, except that giving only text or only html replaces the whole body. The draft gets a new UID, which is returned.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uid: {
+          type: 'number',
+          description: 'UID of the draft in the Drafts folder',
+        },
+        ...composeProperties,
+      },
+      required: ['uid'],
+    },
+  },
+  {
+    name: 'yahoo_mail_list_drafts',
+    description: 'List drafts in the Drafts folder, most recent first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Maximum number of drafts to return. Default: 50',
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page, to continue where it stopped',
+        },
+      },
+    },
+  },
+  {
+    name: 'yahoo_mail_delete_draft',
+    description: 'Permanently delete a draft.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uid: {
+          type: 'number',
+          description: 'UID of the draft in the Drafts folder',
+        },
+      },
+      required: ['uid'],
+    },
+  },
+  {
+    name: 'yahoo_mail_send_draft',
+    description: 'Send a draft over SMTP, save it to the Sent folder and remove it from Drafts.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uid: {
+          type: 'number',
+          description: 'UID of the draft in the Drafts folder',
+        },
+      },
+      required: ['uid'],
+    },
+  },
+  {
+    name: 'yahoo_mail_set_flags',
+    description: 'Add or remove flags on one or more emails: mark read/unread (\\Seen), star (\\Flagged), answered (\\Answered) or set custom keywords.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'UIDs of the emails to change',
+        },
+        folder: {
+          type: 'string',
+          description: 'Folder containing the emails. Defaults to INBOX.',
+        },
+        add: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Flags to add, e.g. ["\\Seen", "\\Flagged", "$Important"]. "seen", "flagged", "answered" also work.',
+        },
+        remove: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Flags to remove, e.g. ["\\Seen"] to mark as unread',
+        },
+      },
+      required: ['uids'],
+    },
+  },
+  {
+    name: 'yahoo_mail_move_emails',
+    description: 'Move emails to another folder. Returns the new UIDs in the destination folder.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'UIDs of the emails to move',
+        },
+        folder: {
+          type: 'string',
+          description: 'Folder currently containing the emails. Defaults to INBOX.',
+        },
+        destination: {
+          type: 'string',
+          description: 'Destination folder name',
+        },
+      },
+      required: ['uids', 'destination'],
+    },
+  },
+  {
+    name: 'yahoo_mail_copy_emails',
+    description: 'Copy emails to another folder. Returns the UIDs of the copies.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'UIDs of the emails to copy',
+        },
+        folder: {
+          type: 'string',
+          description: 'Folder currently containing the emails. Defaults to INBOX.',
+        },
+        destination: {
+          type: 'string',
+          description: 'Destination folder name',
+        },
+      },
+      required: ['uids', 'destination'],
+    },
+  },
+  {
+    name: 'yahoo_mail_archive_emails',
+    description: 'Move emails to the Archive folder. Returns the new UIDs in the Archive folder.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'UIDs of the emails to archive',
+        },
+        folder: {
+          type: 'string',
+          description: 'Folder currently containing the emails. Defaults to INBOX.',
+        },
+      },
+      required: ['uids'],
+    },
+  },
+  {
+    name: 'yahoo_mail_delete_emails',
+    description: 'Delete emails by moving them to Trash. Emails already in Trash, or with permanent set, are removed for good.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'UIDs of the emails to delete',
+        },
+        folder: {
+          type: 'string',
+          description: 'Folder currently containing the emails. Defaults to INBOX.',
+        },
+        permanent: {
+          type: 'boolean',
+          description: 'Expunge immediately instead of moving to Trash. Default: false',
+        },
+      },
+      required: ['uids'],
+    },
+  },
+  {
+    name: 'yahoo_mail_list_folders',
+    description: 'List mail folders with their hierarchy delimiter, special use (\\Sent, \\Trash, \\Junk, \\Archive, \\Drafts) and message counts.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        includeStatus: {
+          type: 'boolean',
+          description: 'Include message, unseen and UIDNEXT counts for each folder. Default: true',
+        },
+      },
+    },
+  },
+  {
+    name: 'yahoo_mail_create_folder',
+    description: 'Create a mail folder, optionally nested under a parent folder.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the new folder',
+        },
+        parent: {
+          type: 'string',
+          description: 'Full name of the parent folder for a nested folder',
+        },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'yahoo_mail_rename_folder',
+    description: 'Rename a mail folder. Use the full new path to move it under another parent.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder: {
+          type: 'string',
+          description: 'Full name of the folder to rename',
+        },
+        newName: {
+          type: 'string',
+          description: 'New full name of the folder',
+        },
+      },
+      required: ['folder', 'newName'],
+    },
+  },
+  {
+    name: 'yahoo_mail_delete_folder',
+    description: 'Delete a mail folder and the emails in it. INBOX and special-use folders cannot be deleted.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder: {
+          type: 'string',
+          description: 'Full name of the folder to delete',
+        },
+        recursive: {
+          type: 'boolean',
+          description: 'Also delete subfolders. Default: false',
+        },
+      },
+      required: ['folder'],
+    },
+  },
+  {
+    name: 'yahoo_mail_get_thread',
+    description: 'Get the full conversation an email belongs to, including your replies. Follows Message-ID, In-Reply-To and References across INBOX, Sent and Archive and returns the messages in date order, each tagged with its folder.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        emailId: {
+          type: 'string',
+          description: 'UID of any email in the thread',
+        },
+        folder: {
+          type: 'string',
+          description: 'Folder containing the email. Defaults to INBOX.',
+        },
+        folders: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Additional folders to search instead of INBOX, Sent and Archive',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of messages to return. Default: 100',
+        },
+      },
+      required: ['emailId'],
+    },
+  },
+  {
+    name: 'yahoo_mail_sync',
+    description: 'Refresh the local message cache from the server. Fetches only new messages, flag changes and deletions since the last sync, unless full is set.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder: {
+          type: 'string',
+          description: 'Folder to sync. Defaults to INBOX.',
+        },
+        folders: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Sync these folders instead of folder',
+        },
+        allFolders: {
+          type: 'boolean',
+          description: 'Sync every selectable folder. Default: false',
+        },
+        full: {
+          type: 'boolean',
+          description: 'Discard the cached state and fetch the folder again. Default: false',
+        },
+        bodies: {
+          type: 'boolean',
+          description: 'Also download the bodies of cached messages (up to 2 MB each) for yahoo_mail_local_search. Default: false',
+        },
+      },
+    },
+  },
+  {
+    name: 'yahoo_mail_local_search',
+    description: 'Full-text search of the local message cache, ranked by relevance, without contacting the server. Matches subject, sender, recipients, attachment filenames and body (the snippet for messages whose body was never downloaded). Run yahoo_mail_sync with bodies first to index full bodies.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Words that must all appear, "quoted phrases" that must appear in order, and -words or -"phrases" to exclude. Case and accents are ignored.',
+        },
+        folders: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only search these folders. Default: every cached folder',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results. Default: 20',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'yahoo_calendar_list_calendars',
+    description: 'List all available Yahoo calendars for the authenticated user.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'yahoo_calendar_fetch_events',
+    description: 'Fetch calendar events from Yahoo Calendar within a date range. Recurring events are returned as one event per occurrence, each with its own id and the series UID in masterId.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'Specific calendar ID. If not provided, fetches from all calendars.',
+        },
+        startDate: {
+          type: 'string',
+          description: 'Start date (ISO 8601 format)',
+          format: 'date-time',
+        },
+        endDate: {
+          type: 'string',
+          description: 'End date (ISO 8601 format)',
+          format: 'date-time',
+        },
+      },
+      required: ['startDate', 'endDate'],
+    },
+  },
+  {
+    name: 'yahoo_calendar_find_free_slots',
+    description: 'Find free meeting slots of a given length within working hours, ranked best first. Busy time comes from calendar events (cancelled events and events marked free are ignored) or from the server\'s free/busy report.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        startDate: {
+          type: 'string',
+          description: 'Start of the search range (ISO 8601)',
+          format: 'date-time',
+        },
+        endDate: {
+          type: 'string',
+          description: 'End of the search range (ISO 8601)',
+          format: 'date-time',
+        },
+        durationMinutes: {
+          type: 'number',
+          description: 'Meeting length in minutes',
+        },
+        timezone: {
+          type: 'string',
+          description: 'IANA time zone for working hours and the returned local times (e.g. "Europe/Berlin"). Default: the server\'s time zone.',
+        },
+        workingHours: {
+          type: 'object',
+          description: 'When slots may be. Default: 09:00-17:00, Monday to Friday.',
+          properties: {
+            start: { type: 'string', description: 'Start of the working day, HH:MM' },
+            end: { type: 'string', description: 'End of the working day, HH:MM' },
+            days: {
+              type: 'array',
+              items: { type: 'string', enum: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] },
+              description: 'Working days',
+            },
+          },
+        },
+        bufferBeforeMinutes: {
+          type: 'number',
+          description: 'Minutes to keep free between the end of a busy period and a slot. Default: 0',
+        },
+        bufferAfterMinutes: {
+          type: 'number',
+          description: 'Minutes to keep free between a slot and the next busy period. Default: 0',
+        },
+        calendarIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Calendars whose events count as busy. Default: all calendars that hold events.',
+        },
+        method: {
+          type: 'string',
+          enum: ['events', 'freebusy'],
+          description: 'events: fetch the events and work out busy time here (default); freebusy: ask the server with a CalDAV free-busy-query',
+        },
+        stepMinutes: {
+          type: 'number',
+          description: 'Slots start on this grid of the wall clock, e.g. 30 for :00 and :30. Default: 30',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of slots to return. Default: 10',
+        },
+      },
+      required: ['startDate', 'endDate', 'durationMinutes'],
+    },
+  },
+  {
+    name: 'yahoo_calendar_create_event',
+    description: 'Create a calendar event, optionally with attendees (who are invited), reminders and a repeat rule.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'Calendar to create the event in. Default: the first calendar that holds events.',
+        },
+        ...eventProperties,
+      },
+      required: ['summary', 'start'],
+    },
+  },
+  {
+    name: 'yahoo_calendar_update_event',
+    description: 'Change a calendar event. Only the fields given are changed. Pass an occurrence id (from yahoo_calendar_fetch_events) to change just that occurrence of a recurring event, or the series id (masterId) to change every occurrence.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'Calendar ID of the event',
+        },
+        eventId: {
+          type: 'string',
+          description: 'Event id, or occurrence id for one occurrence of a recurring event',
+        },
+        etag: {
+          type: 'string',
+          description: 'ETag from when the event was read; the update fails if the event has changed since. Default: the current ETag.',
+        },
+        ...eventProperties,
+      },
+      required: ['calendarId', 'eventId'],
+    },
+  },
+  {
+    name: 'yahoo_calendar_delete_event',
+    description: 'Delete a calendar event. An occurrence id removes only that occurrence of a recurring event; the series id (masterId) deletes the whole series.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'Calendar ID of the event',
+        },
+        eventId: {
+          type: 'string',
+          description: 'Event id, or occurrence id for one occurrence of a recurring event',
+        },
+        etag: {
+          type: 'string',
+          description: 'ETag from when the event was read; the delete fails if the event has changed since. Default: the current ETag.',
+        },
+      },
+      required: ['calendarId', 'eventId'],
+    },
+  },
+]);
+
+/**
+ * Handle ListTools request
+ */
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools,
+}));
+
+/**
+ * Handle CallTool request
+ */
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+
+  try {
+    const responseOptions = parseResponseOptions(args);
+
+    switch (name) {
+      case 'yahoo_mail_fetch_emails': {
+        const client = await getIMAPClient();
+        const params = {
+          folder: args?.folder as string | undefined,
+          limit: args?.limit as number | undefined,
+          offset: args?.offset as number | undefined,
+          cursor: args?.cursor as string | undefined,
+          since: args?.since ? new Date(args.since as string) : undefined,
+          unreadOnly: args?.unreadOnly as boolean | undefined,
+          markSeen: args?.markSeen as boolean | undefined,
+        };
+        
+        const { emails, nextCursor } = await client.fetchEmailPage(params);
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              count: emails.length,
+              nextCursor,
+              emails: emails.map(email => ({
+                id: email.id,
+                uid: email.uid,
+                subject: email.subject,
+                from: email.from,
+                to: email.to,
+                date: email.date.toISOString(),
+                unread: !email.flags?.includes('\\Seen'),
+                snippet: email.snippet || '',
+              })),
+            }, responseOptions),
+          ],
+        };
+      }
+
       case 'yahoo_mail_get_email': {
         const client = await getIMAPClient();
         const emailId = args?.emailId as string;
         const folder = (args?.folder as string) || 'INBOX';
-        
-        const email = await client.getEmail(emailId, folder);
+        
+        const bodyFormat = (args?.bodyFormat as BodyFormat) || 'text';
+        
+        const email = await client.getEmail(emailId, folder, {
+          markSeen: args?.markSeen as boolean | undefined,
+        });
+        const body = bodyFormat === 'raw'
+          ? { text: email.text, html: email.html }
+          : { body: renderBody(email, { format: bodyFormat, stripQuotes: args?.stripQuotes as boolean | undefined }) };
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              email: {
+                id: email.id,
+                uid: email.uid,
+                messageId: email.messageId,
+                subject: email.subject,
+                from: email.from,
+                to: email.to,
+                cc: email.cc,
+                bcc: email.bcc,
+                date: email.date.toISOString(),
+                bodyFormat,
+                ...body,
+                attachments: email.attachments?.map((att, index) => ({
+                  index,
+                  filename: att.filename,
+                  contentType: att.contentType,
+                  size: att.size,
+                  cid: att.cid,
+                })),
+                flags: email.flags,
+              },
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_search_emails': {
+        const client = await getIMAPClient();
+        const params: any = {
+          query: args?.query as string | undefined,
+          folder: args?.folder as string | undefined,
+          folders: args?.folders as string[] | undefined,
+          allFolders: args?.allFolders as boolean | undefined,
+          includeTrash: args?.includeTrash as boolean | undefined,
+          includeSpam: args?.includeSpam as boolean | undefined,
+          from: args?.from as string | undefined,
+          subject: args?.subject as string | undefined,
+          limit: args?.limit as number | undefined,
+          cursor: args?.cursor as string | undefined,
+        };
+        
+        if (args?.dateRange) {
+          const dateRange = args.dateRange as { start?: string; end?: string };
+          params.dateRange = {
+            start: dateRange.start ? new Date(dateRange.start) : undefined,
+            end: dateRange.end ? new Date(dateRange.end) : undefined,
+          };
+        }
+        
+        const { emails, nextCursor } = await client.searchEmailPage(params);
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              count: emails.length,
+              nextCursor,
+              emails: emails.map(email => ({
+                id: email.id,
+                uid: email.uid,
+                folder: email.folder,
+                subject: email.subject,
+                from: email.from,
+                to: email.to,
+                date: email.date.toISOString(),
+                snippet: email.snippet || '',
+              })),
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_get_attachment': {
+        const client = await getIMAPClient();
+        const emailId = args?.emailId as string;
+        const folder = (args?.folder as string) || 'INBOX';
+        const saveToDisk = (args?.saveToDisk as boolean | undefined) ?? false;
+
+        // The size limit keeps large files out of the model context; saving to disk isn't limited
+        const attachment = await client.getAttachment(emailId, folder, {
+          index: args?.index as number | undefined,
+          filename: args?.filename as string | undefined,
+          contentId: args?.contentId as string | undefined,
+        }, saveToDisk ? undefined : maxAttachmentSize);
+
+        const info = {
+          index: attachment.index,
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          size: attachment.size,
+          cid: attachment.cid,
+        };
+
+        if (saveToDisk) {
+          const savedPath = saveToDownloadDir(attachment.filename, attachment.content!);
+          return {
+            content: [
+              formatResponse({
+                success: true,
+                attachment: info,
+                path: savedPath,
+              }, responseOptions),
+            ],
+          };
+        }
+
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              attachment: info,
+            }, responseOptions),
+            {
+              type: 'resource',
+              resource: {
+                uri: attachmentUri(folder, parseInt(emailId, 10), attachment.index!),
+                mimeType: attachment.contentType,
+                blob: attachment.content!.toString('base64'),
+              },
+            },
+          ],
+        };
+      }
+
+      case 'yahoo_mail_send_email': {
+        const params: SendEmailParams = {
+          to: args?.to as string | string[],
+          cc: args?.cc as string | string[] | undefined,
+          bcc: args?.bcc as string | string[] | undefined,
+          subject: args?.subject as string,
+          text: args?.text as string | undefined,
+          html: args?.html as string | undefined,
+          attachments: parseAttachmentArgs(args?.attachments),
+        };
+
+        if (!params.text && !params.html) {
+          throw new Error('Either text or html body is required');
+        }
+
+        const result = await sendAndSave(params);
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              ...result,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_reply':
+      case 'yahoo_mail_reply_all': {
+        const client = await getIMAPClient();
+        const emailId = args?.emailId as string;
+        const folder = (args?.folder as string) || 'INBOX';
+
+        const original = await client.getEmail(emailId, folder);
+        const params = buildReply(original, {
+          text: args?.text as string | undefined,
+          html: args?.html as string | undefined,
+          cc: args?.cc as string[] | undefined,
+          bcc: args?.bcc as string[] | undefined,
+          quoteOriginal: args?.quoteOriginal as boolean | undefined,
+          replyAll: name === 'yahoo_mail_reply_all',
+          attachments: parseAttachmentArgs(args?.attachments),
+        }, getEmailAddress());
+
+        const result = await sendAndSave(params);
+        await markOriginal(client, original.uid, folder, '\\Answered');
         return {
           content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                email: {
-                  id: email.id,
-                  uid: email.uid,
-                  messageId: email.messageId,
-                  subject: email.subject,
-                  from: email.from,
-                  to: email.to,
-                  cc: email.cc,
-                  bcc: email.bcc,
-                  date: email.date.toISOString(),
-                  text: email.text,
-                  html: email.html,
-                  attachments: email.attachments?.map(att => ({
-                    filename: att.filename,
-                    contentType: att.contentType,
-                    size: att.size,
-                  })),
-                  flags: email.flags,
-                },
-              }, null, 2),
-            },
+            formatResponse({
+              success: true,
+              to: params.to,
+              cc: params.cc,
+              subject: params.subject,
+              ...result,
+            }, responseOptions),
           ],
         };
       }
 
-      case 'yahoo_mail_search_emails': {
+      case 'yahoo_mail_forward': {
         const client = await getIMAPClient();
-        const params: any = {
-          query: args?.query as string | undefined,
-          folder: args?.folder as string | undefined,
-          from: args?.from as string | undefined,
+        const emailId = args?.emailId as string;
+        const folder = (args?.folder as string) || 'INBOX';
+        const includeAttachments = (args?.includeAttachments as boolean | undefined) ?? true;
+
+        const original = await client.getEmail(emailId, folder, {
+          includeAttachmentContent: includeAttachments,
+        });
+        const params = buildForward(original, {
+          to: args?.to as string | string[],
+          cc: args?.cc as string | string[] | undefined,
+          bcc: args?.bcc as string | string[] | undefined,
+          text: args?.text as string | undefined,
+          html: args?.html as string | undefined,
+          includeAttachments,
+          attachments: parseAttachmentArgs(args?.attachments),
+        });
+
+        const result = await sendAndSave(params);
+        await markOriginal(client, original.uid, folder, '$Forwarded');
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              subject: params.subject,
+              attachments: params.attachments?.map(att => att.filename) || [],
+              ...result,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_create_draft':
+      case 'yahoo_mail_update_draft': {
+        const draftManager = await getDrafts();
+        const params: Partial<SendEmailParams> = {
+          to: args?.to as string | string[] | undefined,
+          cc: args?.cc as string | string[] | undefined,
+          bcc: args?.bcc as string | string[] | undefined,
           subject: args?.subject as string | undefined,
+          text: args?.text as string | undefined,
+          html: args?.html as string | undefined,
+          attachments: parseAttachmentArgs(args?.attachments),
+        };
+
+        const draft = name === 'yahoo_mail_update_draft'
+          ? await draftManager.updateDraft(args?.uid as number, params)
+          : await draftManager.createDraft({ ...params, to: params.to || [], subject: params.subject || '' });
+
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              draft,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_list_drafts': {
+        const draftManager = await getDrafts();
+        const { emails, nextCursor } = await draftManager.listDrafts(
+          args?.limit as number | undefined,
+          args?.cursor as string | undefined
+        );
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              count: emails.length,
+              nextCursor,
+              drafts: emails.map(email => ({
+                uid: email.uid,
+                subject: email.subject,
+                to: email.to,
+                cc: email.cc,
+                date: email.date.toISOString(),
+                snippet: email.snippet || '',
+              })),
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_delete_draft': {
+        const draftManager = await getDrafts();
+        await draftManager.deleteDraft(args?.uid as number);
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              deleted: args?.uid,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_send_draft': {
+        const draftManager = await getDrafts();
+        const uid = args?.uid as number;
+        const params = await draftManager.loadDraft(uid);
+
+        const result = await sendAndSave(params);
+        await draftManager.deleteDraft(uid);
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              subject: params.subject,
+              ...result,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_set_flags': {
+        const client = await getIMAPClient();
+        const results = await client.setFlags({
+          uids: (args?.uids as number[]) || [],
+          folder: args?.folder as string | undefined,
+          add: args?.add as string[] | undefined,
+          remove: args?.remove as string[] | undefined,
+        });
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              count: results.length,
+              messages: results,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_move_emails':
+      case 'yahoo_mail_copy_emails':
+      case 'yahoo_mail_archive_emails':
+      case 'yahoo_mail_delete_emails': {
+        const client = await getIMAPClient();
+        const uids = (args?.uids as number[]) || [];
+        const folder = (args?.folder as string) || 'INBOX';
+        const destination = args?.destination as string;
+
+        let result;
+        if (name === 'yahoo_mail_move_emails') {
+          result = await client.moveMessages(uids, folder, destination);
+        } else if (name === 'yahoo_mail_copy_emails') {
+          result = await client.copyMessages(uids, folder, destination);
+        } else if (name === 'yahoo_mail_archive_emails') {
+          result = await client.archiveMessages(uids, folder);
+        } else {
+          result = await client.deleteMessages(uids, folder, args?.permanent as boolean | undefined);
+        }
+
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              count: result.messages.length,
+              ...result,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_list_folders': {
+        const client = await getIMAPClient();
+        const folders = await client.listFolders((args?.includeStatus as boolean | undefined) ?? true);
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              count: folders.length,
+              folders,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_create_folder': {
+        const client = await getIMAPClient();
+        const folder = await client.createFolder(args?.name as string, args?.parent as string | undefined);
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              folder,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_rename_folder': {
+        const client = await getIMAPClient();
+        const folder = await client.renameFolder(args?.folder as string, args?.newName as string);
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              folder,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_delete_folder': {
+        const client = await getIMAPClient();
+        const deleted = await client.deleteFolder(args?.folder as string, args?.recursive as boolean | undefined);
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              deleted,
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_get_thread': {
+        const client = await getIMAPClient();
+        const folder = (args?.folder as string) || 'INBOX';
+        const messages = await client.getThread(args?.emailId as string, folder, {
+          folders: args?.folders as string[] | undefined,
           limit: args?.limit as number | undefined,
+        });
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              count: messages.length,
+              messages: messages.map((message) => ({
+                uid: message.uid,
+                folder: message.folder,
+                messageId: message.messageId,
+                subject: message.subject,
+                from: message.from,
+                to: message.to,
+                cc: message.cc,
+                date: message.date.toISOString(),
+                inReplyTo: message.inReplyTo,
+                parentMessageId: message.parentMessageId,
+                depth: message.depth,
+                flags: message.flags,
+              })),
+            }, responseOptions),
+          ],
         };
-        
-        if (args?.dateRange) {
-          const dateRange = args.dateRange as { start?: string; end?: string };
-          params.dateRange = {
-            start: dateRange.start ? new Date(dateRange.start) : undefined,
-            end: dateRange.end ? new Date(dateRange.end) : undefined,
-          };
+      }
+
+      case 'yahoo_mail_sync': {
+        const client = await getIMAPClient();
+        let folders = (args?.folders as string[] | undefined) || [(args?.folder as string) || 'INBOX'];
+        if (args?.allFolders) {
+          folders = (await client.listFolders()).filter((info) => info.selectable).map((info) => info.name);
+        }
+
+        const results: SyncResult[] = [];
+        for (const folder of folders) {
+          results.push(await client.syncFolder(folder, {
+            full: args?.full as boolean | undefined,
+            bodies: args?.bodies as boolean | undefined,
+          }));
         }
-        
-        const emails = await client.searchEmails(params);
         return {
           content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                count: emails.length,
-                emails: emails.map(email => ({
-                  id: email.id,
-                  uid: email.uid,
-                  subject: email.subject,
-                  from: email.from,
-                  to: email.to,
-                  date: email.date.toISOString(),
-                  snippet: email.text?.substring(0, 200) || email.html?.substring(0, 200) || '',
-                })),
-              }, null, 2),
-            },
+            formatResponse({
+              success: true,
+              folders: results.map((result) => ({
+                ...result,
+                syncedAt: result.syncedAt.toISOString(),
+              })),
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_mail_local_search': {
+        const hits = getSearchIndex().search(args?.query as string, {
+          folders: args?.folders as string[] | undefined,
+          limit: (args?.limit as number) || 20,
+        });
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              count: hits.length,
+              emails: hits.map((hit) => ({
+                id: hit.uid.toString(),
+                uid: hit.uid,
+                folder: hit.folder,
+                subject: hit.subject,
+                from: hit.from,
+                date: hit.date.toISOString(),
+                score: hit.score,
+                snippet: hit.snippet,
+              })),
+            }, responseOptions),
           ],
         };
       }
@@ -354,19 +1955,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const calendars = await client.listCalendars();
         return {
           content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                count: calendars.length,
-                calendars: calendars.map(cal => ({
-                  id: cal.id,
-                  name: cal.name,
-                  description: cal.description,
-                  color: cal.color,
-                })),
-              }, null, 2),
-            },
+            formatResponse({
+              success: true,
+              count: calendars.length,
+              calendars: calendars.map(cal => ({
+                id: cal.id,
+                name: cal.name,
+                description: cal.description,
+                color: cal.color,
+                ctag: cal.ctag,
+                components: cal.components,
+              })),
+            }, responseOptions),
           ],
         };
       }
@@ -384,23 +1984,148 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         });
         return {
           content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                count: events.length,
-                events: events.map(event => ({
-                  id: event.id,
-                  summary: event.summary,
-                  description: event.description,
-                  start: event.start.toISOString(),
-                  end: event.end.toISOString(),
-                  location: event.location,
-                  organizer: event.organizer,
-                  status: event.status,
-                })),
-              }, null, 2),
-            },
+            formatResponse({
+              success: true,
+              count: events.length,
+              events: events.map(eventResult),
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_calendar_find_free_slots': {
+        const client = await getCalDAVClient();
+        const startDate = new Date(args?.startDate as string);
+        const endDate = new Date(args?.endDate as string);
+        const duration = args?.durationMinutes as number;
+        const timezone = (args?.timezone as string) || Intl.DateTimeFormat().resolvedOptions().timeZone;
+        const method = (args?.method as string) || 'events';
+        const workingHours = (args?.workingHours || {}) as { start?: string; end?: string; days?: string[] };
+
+        if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || endDate <= startDate) {
+          throw new Error('startDate and endDate must be valid dates, with endDate after startDate');
+        }
+        if (typeof duration !== 'number' || duration <= 0) {
+          throw new Error('durationMinutes must be a positive number of minutes');
+        }
+        if (!isValidTimeZone(timezone)) {
+          throw new Error(`Unknown time zone: ${timezone}. Use an IANA name such as Europe/Berlin.`);
+        }
+        if (method !== 'events' && method !== 'freebusy') {
+          throw new Error(`Invalid method: ${method}. Use events or freebusy.`);
+        }
+        const step = (args?.stepMinutes as number | undefined) ?? 30;
+        const limit = (args?.limit as number | undefined) ?? 10;
+        const bufferBefore = (args?.bufferBeforeMinutes as number | undefined) ?? 0;
+        const bufferAfter = (args?.bufferAfterMinutes as number | undefined) ?? 0;
+        if (!Number.isInteger(step) || step <= 0) {
+          throw new Error('stepMinutes must be a positive whole number of minutes');
+        }
+        if (!Number.isInteger(limit) || limit <= 0) {
+          throw new Error('limit must be a positive whole number');
+        }
+        if (typeof bufferBefore !== 'number' || !isFinite(bufferBefore) || bufferBefore < 0) {
+          throw new Error('bufferBeforeMinutes must be zero or a positive number of minutes');
+        }
+        if (typeof bufferAfter !== 'number' || !isFinite(bufferAfter) || bufferAfter < 0) {
+          throw new Error('bufferAfterMinutes must be zero or a positive number of minutes');
+        }
+
+        const weekdays = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+        const days = (workingHours.days || ['MO', 'TU', 'WE', 'TH', 'FR']).map((day) => {
+          const index = weekdays.indexOf(day.trim().toUpperCase());
+          if (index < 0) {
+            throw new Error(`Invalid working day: ${day}. Use MO, TU, WE, TH, FR, SA or SU.`);
+          }
+          return index;
+        });
+
+        const busy: BusyPeriod[] = [];
+        for (const calendarId of (args?.calendarIds as string[] | undefined) ?? [undefined]) {
+          busy.push(...(method === 'freebusy'
+            ? await client.queryFreeBusy({ calendarId, startDate, endDate })
+            : busyFromEvents(await client.fetchEvents({ calendarId, startDate, endDate, strict: true }))));
+        }
+
+        const slots = findFreeSlots(busy, {
+          start: startDate,
+          end: endDate,
+          duration,
+          timeZone: timezone,
+          workingHours: { start: workingHours.start || '09:00', end: workingHours.end || '17:00', days },
+          bufferBefore,
+          bufferAfter,
+          step,
+          limit,
+        });
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              method,
+              timezone,
+              durationMinutes: duration,
+              busyPeriods: busy.length,
+              count: slots.length,
+              slots: slots.map((slot) => ({
+                start: slot.start.toISOString(),
+                end: slot.end.toISOString(),
+                localStart: formatSlotTime(slot.start, timezone),
+                localEnd: formatSlotTime(slot.end, timezone),
+                score: slot.score,
+              })),
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_calendar_create_event': {
+        const client = await getCalDAVClient();
+        const event = await client.createEvent(args?.calendarId as string | undefined, parseEventArgs(args));
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              event: eventResult(event),
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_calendar_update_event': {
+        const client = await getCalDAVClient();
+        // Times without an offset or timezone are read in the event's own zone
+        const needsCurrent = !args?.timezone && (args?.start !== undefined || args?.end !== undefined || args?.recurrence !== undefined);
+        const current = needsCurrent
+          ? (await client.getEvent(args?.calendarId as string, args?.eventId as string)).event
+          : undefined;
+        const event = await client.updateEvent(
+          args?.calendarId as string,
+          args?.eventId as string,
+          parseEventArgs(args, current),
+          args?.etag as string | undefined
+        );
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              event: eventResult(event),
+            }, responseOptions),
+          ],
+        };
+      }
+
+      case 'yahoo_calendar_delete_event': {
+        const client = await getCalDAVClient();
+        const eventId = args?.eventId as string;
+        const result = await client.deleteEvent(args?.calendarId as string, eventId, args?.etag as string | undefined);
+        return {
+          content: [
+            formatResponse({
+              success: true,
+              deleted: eventId,
+              occurrenceOnly: result.occurrenceOnly,
+            }, responseOptions),
           ],
         };
       }
@@ -431,6 +2156,197 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+/**
+ * Handle ListResources request: mail folders, recent INBOX messages and upcoming events
+ */
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  const resources: Array<{ uri: string; name: string; description?: string; mimeType?: string }> = [];
+  const client = await getIMAPClient();
+
+  const folders = await client.listFolders();
+  for (const folder of folders.filter((info) => info.selectable)) {
+    resources.push({
+      uri: mailboxUri(folder.name),
+      name: folder.name,
+      description: `Mailbox ${folder.name}${watchFolders.includes(folder.name) ? ' (watched for new mail; subscribe for updates)' : ''}`,
+      mimeType: 'text/plain',
+    });
+  }
+
+  for (const email of await client.fetchEmails({ folder: 'INBOX', limit: 20 })) {
+    resources.push({
+      uri: messageUri('INBOX', email.uid),
+      name: email.subject,
+      description: `From ${email.from.map((addr) => addr.address).join(', ')} on ${email.date.toISOString()}`,
+      mimeType: 'message/rfc822',
+    });
+  }
+
+  // Calendar access is optional; mail resources are still listed if it fails
+  try {
+    const now = new Date();
+    const events = await (await getCalDAVClient()).fetchEvents({
+      startDate: now,
+      endDate: new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000),
+    });
+    for (const event of events) {
+      resources.push({
+        uri: eventUri(event.calendarId, event.id),
+        name: event.summary,
+        description: `${event.start.toISOString()} - ${event.end.toISOString()}`,
+        mimeType: 'text/calendar',
+      });
+    }
+  } catch (error) {
+    console.error('Failed to list calendar resources:', error);
+  }
+
+  return { resources };
+});
+
+/**
+ * Handle ListResourceTemplates request
+ */
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+  resourceTemplates: RESOURCE_TEMPLATES,
+}));
+
+/**
+ * Handle ReadResource request
+ */
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+  const ref = parseResourceUri(uri);
+
+  switch (ref.kind) {
+    case 'mailbox': {
+      const emails = await (await getIMAPClient()).fetchEmails({ folder: ref.folder, limit: 20 });
+      return {
+        contents: [{ uri, mimeType: 'text/plain', text: formatMailboxText(ref.folder, emails) }],
+      };
+    }
+
+    case 'message': {
+      const client = await getIMAPClient();
+      const email = await client.getEmail(ref.uid.toString(), ref.folder);
+      const contents: Array<{ uri: string; mimeType: string; text?: string; blob?: string }> = [
+        { uri, mimeType: 'text/plain', text: formatEmailText(email) },
+      ];
+      // The raw source, as bytes since it may not be UTF-8, only within the attachment size limit
+      if (email.size === undefined || email.size <= maxAttachmentSize) {
+        const raw = await client.getRawMessage(ref.uid.toString(), ref.folder);
+        if (raw.length <= maxAttachmentSize) {
+          contents.push({ uri, mimeType: 'message/rfc822', blob: raw.toString('base64') });
+        }
+      }
+      return { contents };
+    }
+
+    case 'attachment': {
+      const attachment = await (await getIMAPClient()).getAttachment(
+        ref.uid.toString(),
+        ref.folder,
+        { index: ref.index },
+        maxAttachmentSize
+      );
+      return {
+        contents: [{ uri, mimeType: attachment.contentType, blob: attachment.content!.toString('base64') }],
+      };
+    }
+
+    case 'event': {
+      const { event, ics } = await (await getCalDAVClient()).getEvent(ref.calendarId, ref.eventId);
+      return {
+        contents: [
+          { uri, mimeType: 'text/plain', text: formatEventText(event) },
+          { uri, mimeType: 'text/calendar', text: ics },
+        ],
+      };
+    }
+  }
+});
+
+/**
+ * Handle resource subscriptions. Mailbox subscriptions receive updates from the new-mail watcher.
+ */
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  parseResourceUri(request.params.uri);
+  subscriptions.add(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  subscriptions.delete(request.params.uri);
+  return {};
+});
+
+/**
+ * List and build prompts for common mail and calendar workflows
+ */
+server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+  prompts: PROMPTS,
+}));
+
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  return getPrompt(request.params.name, request.params.arguments, {
+    imap: getIMAPClient,
+    caldav: getCalDAVClient,
+  });
+});
+
+/**
+ * Start watching the configured folders for new mail
+ */
+async function startWatcher() {
+  const watcher = new MailWatcher(
+    getOAuth2(),
+    { user: getEmailAddress(), host: config.imapHost, port: config.imapPort },
+    await getIMAPClient(),
+    watchFolders,
+    (change) => {
+      notifyMailboxChange(change).catch((error) => {
+        console.error('Failed to send mailbox notification:', error);
+      });
+    }
+  );
+  watcher.start();
+  console.error(`Watching for new mail in: ${watchFolders.join(', ')}`);
+}
+
+/**
+ * Tell the client about a mailbox change: resources/updated for subscribers
+ * of the mailbox, and a log message summarizing what changed
+ */
+async function notifyMailboxChange(change: MailboxChange) {
+  const uri = mailboxUri(change.folder);
+  if (subscriptions.has(uri)) {
+    await server.sendResourceUpdated({ uri });
+  }
+
+  await server.sendLoggingMessage({
+    level: 'info',
+    logger: 'yahoo-mail-watcher',
+    data: {
+      event: change.reset ? 'mailbox_reset' : 'mailbox_changed',
+      folder: change.folder,
+      uri,
+      exists: change.exists,
+      uidNext: change.uidNext,
+      uidValidity: change.uidValidity,
+      expunged: change.expunged,
+      newMessages: change.newMessages.map((email) => ({
+        uid: email.uid,
+        uri: messageUri(change.folder, email.uid),
+        subject: email.subject,
+        from: email.from,
+        date: email.date.toISOString(),
+        snippet: email.snippet || '',
+        unread: !email.flags?.includes('\\Seen'),
+      })),
+    },
+  });
+}
+
 /**
  * Start the server
  */
@@ -438,6 +2354,12 @@ async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Yahoo Mail MCP Server running on stdio');
+
+  if (watchFolders.length > 0) {
+    startWatcher().catch((error) => {
+      console.error('Failed to start mail watcher:', error);
+    });
+  }
 }
 
 main().catch((error) => {
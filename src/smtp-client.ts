@@ -0,0 +1,131 @@
+/**
+ * SMTP Client for Yahoo Mail
+ *
+ * Sends mail through Yahoo SMTP using OAuth2 (XOAUTH2). Messages are
+ * composed once with nodemailer's MailComposer so the exact bytes that went
+ * out can also be appended to the Sent folder over IMAP.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import nodemailer from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import type Mail from 'nodemailer/lib/mailer/index.js';
+import type { SendEmailParams, SendEmailResult } from './types.js';
+import type { YahooOAuth2 } from './oauth2.js';
+
+export class YahooSMTPClient {
+  private oauth2: YahooOAuth2;
+  private emailAddress: string;
+  private smtpHost: string;
+  private smtpPort: number;
+
+  constructor(oauth2: YahooOAuth2, emailAddress: string, smtpHost: string, smtpPort: number) {
+    this.oauth2 = oauth2;
+    this.emailAddress = emailAddress;
+    this.smtpHost = smtpHost;
+    this.smtpPort = smtpPort;
+  }
+
+  /**
+   * Send an email and return the delivered message together with a copy
+   * suitable for the Sent folder (the copy keeps the Bcc header)
+   */
+  async sendEmail(params: SendEmailParams): Promise<SendEmailResult> {
+    const node = new MailComposer(this.toMailOptions(params)).compile();
+    const envelope = node.getEnvelope();
+
+    if (envelope.to.length === 0) {
+      throw new Error('At least one recipient (to, cc or bcc) is required');
+    }
+
+    const raw = await node.build();
+    node.keepBcc = true;
+    const sentCopy = await node.build();
+
+    const accessToken = await this.oauth2.getAccessToken();
+    const transporter = nodemailer.createTransport({
+      host: this.smtpHost,
+      port: this.smtpPort,
+      secure: this.smtpPort === 465, // 587 upgrades with STARTTLS
+      requireTLS: this.smtpPort !== 465,
+      auth: {
+        type: 'OAuth2',
+        user: this.emailAddress,
+        accessToken,
+      },
+    });
+
+    try {
+      const info = await transporter.sendMail({ envelope, raw });
+
+      return {
+        messageId: node.messageId(),
+        accepted: info.accepted.map(String),
+        rejected: info.rejected.map(String),
+        response: info.response,
+        raw: sentCopy,
+      };
+    } catch (error) {
+      throw new Error(`Failed to send email: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      transporter.close();
+    }
+  }
+
+  /**
+   * Build an RFC 822 message without sending it (used for drafts).
+   * Bcc is kept so the recipients survive a round trip through the Drafts folder.
+   */
+  async composeMessage(params: SendEmailParams): Promise<{ messageId: string; raw: Buffer }> {
+    const node = new MailComposer(this.toMailOptions(params)).compile();
+    node.keepBcc = true;
+    return {
+      messageId: node.messageId(),
+      raw: await node.build(),
+    };
+  }
+
+  /**
+   * Convert tool parameters into nodemailer mail options
+   */
+  private toMailOptions(params: SendEmailParams): Mail.Options {
+    return {
+      from: this.emailAddress,
+      to: params.to,
+      cc: params.cc,
+      bcc: params.bcc,
+      subject: params.subject,
+      text: params.text,
+      html: params.html,
+      inReplyTo: params.inReplyTo,
+      references: params.references,
+      attachments: params.attachments?.map((att) => {
+        if (att.path) {
+          const filePath = path.resolve(att.path);
+          if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+            throw new Error(`Attachment file not found: ${att.path}`);
+          }
+          return {
+            filename: att.filename || path.basename(filePath),
+            contentType: att.contentType,
+            // Resolved to an absolute local path so nodemailer never fetches it as a URL
+            path: filePath,
+          };
+        }
+
+        if (att.content === undefined) {
+          throw new Error(`Attachment ${att.filename || '(unnamed)'} needs either content or path`);
+        }
+
+        return {
+          filename: att.filename,
+          contentType: att.contentType,
+          cid: att.cid,
+          content: att.content,
+          encoding: typeof att.content === 'string' ? att.encoding : undefined,
+        };
+      }),
+    };
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Client-side conversation threading
+ *
+ * A JWZ-style threader (https://www.jwz.org/doc/threading.html) over
+ * Message-ID, In-Reply-To and References. Used when the server lacks the
+ * IMAP THREAD extension, and to merge threads found in different folders.
+ */
+
+export interface ThreadableMessage {
+  messageId: string;
+  inReplyTo?: string;
+  references?: string[];
+  subject: string;
+  date: Date;
+}
+
+export interface ThreadNode<T extends ThreadableMessage> {
+  messageId: string;
+  message?: T;
+  parent?: ThreadNode<T>;
+  children: ThreadNode<T>[];
+}
+
+/**
+ * Build thread trees from a set of messages. Returns the root nodes, each
+ * with children sorted by date.
+ */
+export function threadMessages<T extends ThreadableMessage>(messages: T[]): ThreadNode<T>[] {
+  const table = new Map<string, ThreadNode<T>>();
+  let synthetic = 0;
+
+  const getNode = (messageId: string): ThreadNode<T> => {
+    let node = table.get(messageId);
+    if (!node) {
+      node = { messageId, children: [] };
+      table.set(messageId, node);
+    }
+    return node;
+  };
+
+  const isAncestor = (candidate: ThreadNode<T>, node: ThreadNode<T>): boolean => {
+    for (let current: ThreadNode<T> | undefined = node; current; current = current.parent) {
+      if (current === candidate) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const link = (parent: ThreadNode<T>, child: ThreadNode<T>) => {
+    if (child.parent === parent || isAncestor(child, parent)) {
+      return;
+    }
+    if (child.parent) {
+      child.parent.children = child.parent.children.filter((c) => c !== child);
+    }
+    child.parent = parent;
+    parent.children.push(child);
+  };
+
+  for (const message of messages) {
+    let node = message.messageId ? getNode(message.messageId) : undefined;
+    if (!node || node.message) {
+      // Missing or duplicate Message-ID: keep the message under a unique key
+      node = getNode(`<synthetic-${++synthetic}@local>`);
+    }
+    node.message = message;
+
+    const refs = [...(message.references || [])];
+    if (message.inReplyTo && refs[refs.length - 1] !== message.inReplyTo) {
+      refs.push(message.inReplyTo);
+    }
+
+    // Chain the references together without overriding links made earlier
+    let previous: ThreadNode<T> | undefined;
+    for (const ref of refs) {
+      const refNode = getNode(ref);
+      if (previous && !refNode.parent) {
+        link(previous, refNode);
+      }
+      previous = refNode;
+    }
+
+    // The last reference is authoritative for the message's own parent
+    if (previous && previous !== node) {
+      link(previous, node);
+    }
+  }
+
+  let roots = [...table.values()].filter((node) => !node.parent);
+  roots = roots.flatMap((root) => prune(root));
+  roots = mergeBySubject(roots);
+
+  const sortTree = (nodes: ThreadNode<T>[]) => {
+    nodes.sort((a, b) => nodeDate(a) - nodeDate(b));
+    for (const node of nodes) {
+      sortTree(node.children);
+    }
+  };
+  sortTree(roots);
+
+  return roots;
+}
+
+/**
+ * Walk a thread tree depth-first, yielding each message with its depth and parent Message-ID
+ */
+export function flattenThread<T extends ThreadableMessage>(
+  roots: ThreadNode<T>[]
+): Array<{ message: T; depth: number; parentMessageId?: string }> {
+  const result: Array<{ message: T; depth: number; parentMessageId?: string }> = [];
+
+  const walk = (node: ThreadNode<T>, depth: number, parentMessageId?: string) => {
+    if (node.message) {
+      result.push({ message: node.message, depth, parentMessageId });
+    }
+    const nextParent = node.message ? node.message.messageId : parentMessageId;
+    for (const child of node.children) {
+      walk(child, node.message ? depth + 1 : depth, nextParent);
+    }
+  };
+
+  for (const root of roots) {
+    walk(root, 0);
+  }
+  return result;
+}
+
+/**
+ * Strip reply/forward prefixes and list tags so related subjects compare equal
+ */
+export function normalizeSubject(subject: string): string {
+  let result = (subject || '').trim();
+  let previous: string;
+  do {
+    previous = result;
+    result = result
+      .replace(/^\[[^\]]*\]\s*/, '')
+      .replace(/^(re|fwd?|fw|aw|sv|wg)(\[\d+\])?\s*:\s*/i, '')
+      .trim();
+  } while (result !== previous);
+  return result.toLowerCase();
+}
+
+/**
+ * Remove empty placeholder nodes (references to messages we don't have),
+ * promoting their children. An empty root with several children is kept so
+ * the siblings stay grouped.
+ */
+function prune<T extends ThreadableMessage>(node: ThreadNode<T>): ThreadNode<T>[] {
+  node.children = node.children.flatMap((child) => prune(child));
+  for (const child of node.children) {
+    child.parent = node;
+  }
+
+  if (node.message) {
+    return [node];
+  }
+  if (node.children.length === 0) {
+    return [];
+  }
+  if (node.parent && node.children.length > 0) {
+    return node.children;
+  }
+  if (node.children.length === 1) {
+    node.children[0].parent = undefined;
+    return node.children;
+  }
+  return [node];
+}
+
+/**
+ * Attach reply roots ("Re: ...") to a root with the same base subject.
+ * Unrelated messages that merely share a subject are not merged.
+ */
+function mergeBySubject<T extends ThreadableMessage>(roots: ThreadNode<T>[]): ThreadNode<T>[] {
+  const bySubject = new Map<string, ThreadNode<T>>();
+
+  for (const root of [...roots].sort((a, b) => nodeDate(a) - nodeDate(b))) {
+    const subject = normalizeSubject(rootSubject(root));
+    if (subject && !bySubject.has(subject)) {
+      bySubject.set(subject, root);
+    }
+  }
+
+  return roots.filter((root) => {
+    const subject = normalizeSubject(rootSubject(root));
+    const target = subject ? bySubject.get(subject) : undefined;
+    if (!target || target === root || !isReplySubject(rootSubject(root))) {
+      return true;
+    }
+    root.parent = target;
+    target.children.push(root);
+    return false;
+  });
+}
+
+function isReplySubject(subject: string): boolean {
+  return /^(re|aw|sv)(\[\d+\])?\s*:/i.test((subject || '').trim());
+}
+
+function rootSubject<T extends ThreadableMessage>(node: ThreadNode<T>): string {
+  return node.message?.subject ?? node.children[0]?.message?.subject ?? '';
+}
+
+function nodeDate<T extends ThreadableMessage>(node: ThreadNode<T>): number {
+  if (node.message) {
+    return node.message.date.getTime();
+  }
+  return Math.min(...node.children.map((child) => nodeDate(child)), Number.MAX_SAFE_INTEGER);
+}
@@ -0,0 +1,158 @@
+/**
+ * Time zone arithmetic on top of Intl
+ *
+ * Converts between UTC instants and wall-clock times in IANA time zones
+ * without a time zone library. Wall times are plain field objects; a wall
+ * time that falls in a DST gap is moved forward by the gap, and one that
+ * occurs twice takes the earlier instant, as RFC 5545 requires.
+ */
+
+export interface WallTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** Converts between instants and wall times in one time zone */
+export interface WallClock {
+  toWall(date: Date): WallTime;
+  fromWall(wall: WallTime): Date;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether Intl knows this time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The wall-clock time of an instant in a time zone
+ */
+export function toWallTime(date: Date, timeZone: string): WallTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    // Some engines format midnight as 24
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  const wall = toWallTime(date, timeZone);
+  return wallTimeToEpoch(wall) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time occurs in a time zone
+ */
+export function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const local = wallTimeToEpoch(wall);
+  // The offsets a day either side bracket any transition near this time
+  const before = timeZoneOffset(new Date(local - DAY), timeZone);
+  const after = timeZoneOffset(new Date(local + DAY), timeZone);
+
+  // The larger offset gives the earlier instant, preferred when the time occurs twice
+  for (const offset of before >= after ? [before, after] : [after, before]) {
+    const candidate = new Date(local - offset);
+    if (timeZoneOffset(candidate, timeZone) === offset) {
+      return candidate;
+    }
+  }
+  // In a gap: keep the wall time's distance from the transition
+  return new Date(local - before);
+}
+
+/**
+ * A wall time as milliseconds, reading its fields as if they were UTC
+ */
+export function wallTimeToEpoch(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+/**
+ * The wall time whose fields are a Date's UTC fields
+ */
+export function epochToWallTime(epoch: number): WallTime {
+  const date = new Date(epoch);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+/**
+ * A wall clock for an IANA time zone
+ */
+export function zoneClock(timeZone: string): WallClock {
+  return {
+    toWall: (date) => toWallTime(date, timeZone),
+    fromWall: (wall) => fromWallTime(wall, timeZone),
+  };
+}
+
+/** Wall times read as UTC */
+export const UTC_CLOCK: WallClock = {
+  toWall: (date) => epochToWallTime(date.getTime()),
+  fromWall: (wall) => new Date(wallTimeToEpoch(wall)),
+};
+
+/** The server process's local time zone */
+export const LOCAL_CLOCK: WallClock = {
+  toWall: (date) => ({
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    second: date.getSeconds(),
+  }),
+  fromWall: (wall) => new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second),
+};
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
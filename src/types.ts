@@ -29,9 +29,14 @@ export interface Email {
   to: EmailAddress[];
   cc?: EmailAddress[];
   bcc?: EmailAddress[];
+  replyTo?: EmailAddress[];
   date: Date;
+  inReplyTo?: string;
+  references?: string[];
   text?: string;
   html?: string;
+  snippet?: string;
+  size?: number;
   attachments?: Attachment[];
   flags?: string[];
   folder?: string;
@@ -48,20 +53,59 @@ export interface Attachment {
   size: number;
   content?: Buffer;
   cid?: string;
+  index?: number;
+  partId?: string;
+}
+
+export interface AttachmentSelector {
+  index?: number;
+  filename?: string;
+  contentId?: string;
 }
 
 export interface CalendarEvent {
+  /** UID; for an occurrence of a recurring event, UID_<original start> */
   id: string;
+  /** UID of the recurring event this is an occurrence of */
+  masterId?: string;
   summary: string;
   description?: string;
   start: Date;
   end: Date;
   location?: string;
   organizer?: EmailAddress;
-  attendees?: EmailAddress[];
+  attendees?: EventAttendee[];
   status: string;
   calendarId: string;
   url?: string;
+  /** ETag of the calendar object, for conditional updates */
+  etag?: string;
+  /** All-day event (VALUE=DATE); start and end are local midnights, end exclusive */
+  allDay?: boolean;
+  /** TZID of DTSTART; undefined for UTC, floating and all-day times */
+  timezone?: string;
+  /** OPAQUE (blocks time, the default) or TRANSPARENT */
+  transparency?: string;
+  /** RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO */
+  rrule?: string;
+  rdates?: Date[];
+  exdates?: Date[];
+  /** Original start of an occurrence of a recurring event; an override may have moved it */
+  recurrenceId?: Date;
+  sequence?: number;
+  categories?: string[];
+  created?: Date;
+  lastModified?: Date;
+}
+
+export interface EventAttendee extends EmailAddress {
+  /** CHAIR, REQ-PARTICIPANT, OPT-PARTICIPANT or NON-PARTICIPANT */
+  role?: string;
+  /** NEEDS-ACTION, ACCEPTED, DECLINED, TENTATIVE or DELEGATED */
+  partStat?: string;
+  rsvp?: boolean;
+  /** INDIVIDUAL, GROUP, RESOURCE, ROOM or UNKNOWN */
+  type?: string;
 }
 
 export interface Calendar {
@@ -70,20 +114,80 @@ export interface Calendar {
   description?: string;
   url: string;
   color?: string;
+  /** Collection tag; changes whenever any event in the calendar changes */
+  ctag?: string;
+  /** Component types the calendar accepts (VEVENT, VTODO...); undefined when the server doesn't say */
+  components?: string[];
 }
 
 export interface FetchEmailsParams {
   folder?: string;
   limit?: number;
   offset?: number;
+  /** nextCursor from a previous page */
+  cursor?: string;
   since?: Date;
   before?: Date;
   unreadOnly?: boolean;
+  markSeen?: boolean;
+}
+
+export interface EmailPage {
+  emails: Email[];
+  /** Pass back as cursor to get the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface SyncResult {
+  folder: string;
+  uidValidity: number;
+  /**
+   * full: first sync, forced, or UIDVALIDITY changed; condstore: flag changes
+   * fetched with CHANGEDSINCE; flags: all cached flags re-fetched
+   */
+  method: 'full' | 'condstore' | 'flags';
+  added: number;
+  updated: number;
+  removed: number;
+  /** Messages now in the cache for this folder */
+  cached: number;
+  /** Bodies downloaded, when syncing with bodies */
+  bodies?: number;
+  syncedAt: Date;
+}
+
+export interface SyncOptions {
+  /** Discard the cached state and fetch the folder again */
+  full?: boolean;
+  /** Also download and cache the parsed bodies of synced messages */
+  bodies?: boolean;
+}
+
+export interface GetEmailOptions {
+  includeAttachmentContent?: boolean;
+  markSeen?: boolean;
+}
+
+export interface SetFlagsParams {
+  uids: number[];
+  folder?: string;
+  add?: string[];
+  remove?: string[];
 }
 
 export interface SearchEmailsParams {
   query: string;
   folder?: string;
+  /** Search these folders instead of folder. An empty array searches all folders, like allFolders */
+  folders?: string[];
+  /** Search every selectable folder except Trash and Spam */
+  allFolders?: boolean;
+  /** With allFolders, also search Trash */
+  includeTrash?: boolean;
+  /** With allFolders, also search Spam */
+  includeSpam?: boolean;
+  /** nextCursor from a previous page; the folders of the first call are kept */
+  cursor?: string;
   from?: string;
   subject?: string;
   dateRange?: {
@@ -97,6 +201,45 @@ export interface FetchCalendarEventsParams {
   calendarId?: string;
   startDate: Date;
   endDate: Date;
+  /** Fail when a calendar cannot be read instead of skipping it */
+  strict?: boolean;
+}
+
+/** A time the calendar owner is not available */
+export interface BusyPeriod {
+  start: Date;
+  end: Date;
+  /** BUSY, BUSY-TENTATIVE or BUSY-UNAVAILABLE */
+  type: string;
+  calendarId?: string;
+  /** Title of the event behind it; free/busy queries do not say */
+  summary?: string;
+}
+
+/** Fields of a calendar event to set on create or update; undefined fields are left as they are */
+export interface EventChanges {
+  summary?: string;
+  description?: string;
+  location?: string;
+  /** For all-day events, local midnight of the first day */
+  start?: Date;
+  /** Exclusive; for all-day events, local midnight of the day after the last */
+  end?: Date;
+  allDay?: boolean;
+  /** IANA time zone to write start and end in; times are written in UTC otherwise */
+  timezone?: string;
+  /** Replaces all attendees; attendees that stay keep their responses */
+  attendees?: EventAttendee[];
+  /** Written as ORGANIZER when the event has attendees and no organizer yet */
+  organizer?: EmailAddress;
+  /** Minutes before the start of each reminder; replaces all reminders */
+  reminders?: number[];
+  /** RRULE value; an empty string stops the event repeating */
+  rrule?: string;
+  /** OPAQUE or TRANSPARENT */
+  transparency?: string;
+  /** TENTATIVE, CONFIRMED or CANCELLED */
+  status?: string;
 }
 
 export interface SendEmailParams {
@@ -106,10 +249,98 @@ export interface SendEmailParams {
   subject: string;
   text?: string;
   html?: string;
+  inReplyTo?: string;
+  references?: string[];
   attachments?: Array<{
-    filename: string;
-    content: Buffer | string;
+    filename?: string;
+    content?: Buffer | string;
+    encoding?: string;
+    path?: string;
     contentType?: string;
+    cid?: string;
   }>;
 }
 
+export interface MailboxStatus {
+  messages: number;
+  unseen: number;
+  uidNext: number;
+  uidValidity: number;
+  highestModseq?: string;
+}
+
+export interface MailboxInfo {
+  name: string;
+  displayName: string;
+  delimiter: string;
+  attributes: string[];
+  specialUse?: string;
+  selectable: boolean;
+  parent?: string;
+  status?: MailboxStatus;
+}
+
+export interface MessageTransferResult {
+  source: string;
+  destination?: string;
+  method: 'MOVE' | 'COPY' | 'COPY+EXPUNGE' | 'EXPUNGE';
+  messages: Array<{
+    uid: number;
+    newUid?: number;
+  }>;
+}
+
+export interface DraftResult {
+  uid?: number;
+  messageId: string;
+  folder: string;
+}
+
+export interface ReplyOptions {
+  text?: string;
+  html?: string;
+  cc?: string[];
+  bcc?: string[];
+  replyAll?: boolean;
+  quoteOriginal?: boolean;
+  attachments?: SendEmailParams['attachments'];
+}
+
+export interface ForwardOptions {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  text?: string;
+  html?: string;
+  includeAttachments?: boolean;
+  attachments?: SendEmailParams['attachments'];
+}
+
+export interface SendEmailResult {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+  response: string;
+  raw: Buffer;
+}
+
+export interface ThreadMessage {
+  uid: number;
+  folder: string;
+  messageId: string;
+  subject: string;
+  from: EmailAddress[];
+  to: EmailAddress[];
+  cc?: EmailAddress[];
+  date: Date;
+  inReplyTo?: string;
+  references: string[];
+  flags: string[];
+  depth: number;
+  parentMessageId?: string;
+}
+
+export interface GetThreadOptions {
+  folders?: string[];
+  limit?: number;
+}
@@ -38,7 +38,7 @@ const params = new URLSearchParams({
   client_id: clientId,
   redirect_uri: redirectUri || 'http://localhost:3000/oauth/callback',
   response_type: 'code',
-  scope: 'mail-r cal-r',
+  scope: 'mail-r mail-w cal-r cal-w',
 });
 
 const authUrl = `https://api.login.yahoo.com/oauth2/request_auth?${params.toString()}`;